@@ -0,0 +1,70 @@
+// scripts/admin-store.ts
+//
+// A Store (src/data/store.ts) on the Admin SDK, so that scripts can run bookingService with
+// admin credentials. The data layer works with the web SDK's Timestamp, so timestamps are
+// converted on the way in and out.
+
+import { FieldValue, Timestamp as AdminTimestamp, type DocumentData, type DocumentReference, type Firestore, type Query, type QuerySnapshot, type SetOptions } from 'firebase-admin/firestore';
+import { Timestamp } from 'firebase/firestore';
+import type { QueryOptions, Store, StoreWriter, WithId } from '../src/data/store';
+
+// The writes Transaction and WriteBatch have in common.
+interface AdminWriter {
+  set: (ref: DocumentReference, data: DocumentData, options: SetOptions) => unknown;
+  update: (ref: DocumentReference, data: DocumentData) => unknown;
+  delete: (ref: DocumentReference) => unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Rebuilds arrays and plain objects, converting every timestamp; anything else, such as field
+// value sentinels, is passed through.
+const convert = (value: unknown, timestamp: (value: unknown) => unknown): unknown => {
+  const converted = timestamp(value);
+  if (converted !== value) return converted;
+  if (Array.isArray(value)) return value.map(item => convert(item, timestamp));
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, convert(item, timestamp)]));
+  return value;
+};
+
+const toAdmin = (value: unknown) => convert(value, v => (v instanceof Timestamp ? new AdminTimestamp(v.seconds, v.nanoseconds) : v));
+const fromAdmin = <T>(data: DocumentData | undefined) =>
+  convert(data, v => (v instanceof AdminTimestamp ? new Timestamp(v.seconds, v.nanoseconds) : v)) as T | undefined;
+
+export const createAdminStore = (db: Firestore): Store => {
+  const toQuery = (collectionPath: string, options: QueryOptions = {}): Query => {
+    let result: Query = db.collection(collectionPath);
+    (options.where ?? []).forEach(([field, operator, value]) => { result = result.where(field, operator, toAdmin(value)); });
+    return options.orderBy ? result.orderBy(...options.orderBy) : result;
+  };
+  const documentsOf = <T>(snapshot: QuerySnapshot) => snapshot.docs.map(d => ({ id: d.id, ...fromAdmin<T>(d.data()) }) as WithId<T>);
+
+  const writerFor = (target: AdminWriter): StoreWriter => ({
+    set: (path, data, options) => { target.set(db.doc(path), toAdmin(data) as DocumentData, options ?? {}); },
+    update: (path, data) => { target.update(db.doc(path), toAdmin(data) as DocumentData); },
+    delete: (path) => { target.delete(db.doc(path)); },
+  });
+
+  return {
+    newId: (collectionPath) => db.collection(collectionPath).doc().id,
+    get: async <T>(path: string) => fromAdmin<T>((await db.doc(path).get()).data()),
+    list: async <T>(collectionPath: string, options?: QueryOptions) => documentsOf<T>(await toQuery(collectionPath, options).get()),
+    watch: <T>(collectionPath: string, options: QueryOptions, onChange: (documents: WithId<T>[]) => void, onError?: (error: Error) => void) =>
+      toQuery(collectionPath, options).onSnapshot(snapshot => onChange(documentsOf<T>(snapshot)), onError),
+    watchDocument: <T>(path: string, onChange: (data: T | undefined) => void) =>
+      db.doc(path).onSnapshot(snapshot => onChange(fromAdmin<T>(snapshot.data()))),
+    runTransaction: (update) => db.runTransaction(transaction => update({
+      ...writerFor(transaction),
+      get: async <T>(path: string) => fromAdmin<T>((await transaction.get(db.doc(path))).data()),
+    })),
+    batch: async (write) => {
+      const batch = db.batch();
+      write(writerFor(batch));
+      await batch.commit();
+    },
+    serverTime: () => FieldValue.serverTimestamp(),
+    deleteField: () => FieldValue.delete(),
+    arrayUnion: (...items) => FieldValue.arrayUnion(...items.map(toAdmin)),
+  };
+};
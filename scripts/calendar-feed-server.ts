@@ -0,0 +1,96 @@
+// scripts/calendar-feed-server.ts
+//
+// Serves the subscribable .ics feeds listed under artifacts/{appId}/calendarFeeds. Calendar
+// clients cannot sign in, so each feed is addressed by the secret token in its URL:
+//
+//   GET /<token>.ics
+//
+// Usage:
+//   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run serve:calendar-feeds -- --app-id <appId>
+//
+// Listens on PORT (default 8787), so it can run on Cloud Run or any Node host. Point
+// VITE_CALENDAR_FEED_URL at it to show the feeds in the app. Set FIRESTORE_EMULATOR_HOST to
+// serve from the local emulator instead.
+
+import { createServer } from 'node:http';
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp, type DocumentData, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { DEFAULT_LOCALE, isLocale, translate } from '../src/i18n';
+import { buildCalendar, type IcsBooking } from '../src/ics';
+
+// Older bookings are left out to keep feeds small; clients keep events they already have.
+const HISTORY_DAYS = 90;
+const TOKEN_PATTERN = /^\/([0-9a-f]{48})\.ics$/;
+
+const parseArgs = (argv: string[]) => {
+  const appIdIndex = argv.indexOf('--app-id');
+  const appId = appIdIndex >= 0 ? argv[appIdIndex + 1] : process.env.VITE_FIREBASE_APP_ID;
+  if (!appId) throw new Error('Missing --app-id (or VITE_FIREBASE_APP_ID).');
+  return { appId, port: Number(process.env.PORT ?? 8787) };
+};
+
+const toDate = (value: unknown) => (value instanceof Timestamp ? value.toDate() : undefined);
+
+const toIcsBooking = (snapshot: QueryDocumentSnapshot, locations: Map<string, string>): IcsBooking => {
+  const data: DocumentData = snapshot.data();
+  return {
+    id: snapshot.id,
+    equipmentName: data.equipmentName,
+    userDisplayName: data.userDisplayName,
+    location: locations.get(data.equipmentId),
+    start: (data.startDate as Timestamp).toDate(),
+    end: (data.endDate as Timestamp).toDate(),
+    status: data.status,
+    bookedAt: (data.bookedAt as Timestamp).toDate(),
+    updatedAt: toDate(data.updatedAt),
+    reviewedAt: toDate(data.reviewedAt),
+    cancelledAt: toDate(data.cancelledAt),
+  };
+};
+
+// Returns null when the token does not match a feed, e.g. because it was revoked.
+async function renderFeed(appId: string, token: string): Promise<string | null> {
+  const db = getFirestore();
+  const feed = await db.doc(`artifacts/${appId}/calendarFeeds/${token}`).get();
+  if (!feed.exists) return null;
+  const { scope, ownerId, equipmentId, equipmentName, locale: feedLocale } = feed.data() as DocumentData;
+  // The language the feed's owner used when creating it.
+  const locale = isLocale(feedLocale) ? feedLocale : DEFAULT_LOCALE;
+
+  const bookingsRef = db.collection(`artifacts/${appId}/public/data/bookings`);
+  const since = Timestamp.fromMillis(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const [bookings, equipment] = await Promise.all([
+    bookingsRef.where(scope === 'equipment' ? 'equipmentId' : 'userId', '==', scope === 'equipment' ? equipmentId : ownerId).get(),
+    db.collection(`artifacts/${appId}/public/data/equipment`).get(),
+  ]);
+  const locations = new Map(equipment.docs.filter(d => d.data().location).map(d => [d.id, d.data().location as string]));
+
+  const events = bookings.docs
+    .filter(d => (d.data().endDate as Timestamp).toMillis() >= since.toMillis())
+    .map(d => toIcsBooking(d, locations));
+  const name = scope === 'equipment' ? translate(locale, 'ics.equipmentCalendarName', equipmentName) : translate(locale, 'myBookings.icsCalendarName');
+  return buildCalendar(name, events, locale);
+}
+
+const { appId, port } = parseArgs(process.argv.slice(2));
+initializeApp();
+
+createServer((request, response) => {
+  const token = request.method === 'GET' ? TOKEN_PATTERN.exec(request.url?.split('?')[0] ?? '')?.[1] : undefined;
+  if (!token) {
+    response.writeHead(404).end();
+    return;
+  }
+  renderFeed(appId, token)
+    .then(calendar => {
+      if (calendar === null) {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'private, max-age=300' }).end(calendar);
+    })
+    .catch(error => {
+      console.error(`Failed to render feed ${token.slice(0, 6)}…:`, error);
+      response.writeHead(500).end();
+    });
+}).listen(port, () => console.log(`Serving calendar feeds for ${appId} on port ${port}.`));
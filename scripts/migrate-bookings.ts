@@ -0,0 +1,151 @@
+// scripts/migrate-bookings.ts
+//
+// One-time migration from the mirrored booking copies (users/{uid}/bookings and
+// public/data/bookings) to a single canonical document per booking in
+// artifacts/{appId}/public/data/bookings.
+//
+// Usage:
+//   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run migrate:bookings -- --app-id <appId> [--apply]
+//
+// Without --apply the script only prints its report. Set FIRESTORE_EMULATOR_HOST to run it
+// against the local emulator instead.
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp, type DocumentData, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+
+interface BookingCopy {
+  path: string;
+  id: string;
+  data: DocumentData;
+}
+
+interface MigrationReport {
+  canonical: number;
+  merged: number;
+  mismatched: { publicPath: string; userPath: string; fields: string[] }[];
+  orphanedUserCopies: string[];
+  orphanedPublicCopies: string[];
+  duplicatesRemoved: string[];
+}
+
+// Fields that must agree between a user copy and its public copy.
+const COMPARED_FIELDS = ['equipmentId', 'equipmentName', 'startDate', 'endDate', 'status'];
+
+const toCopy = (snapshot: QueryDocumentSnapshot): BookingCopy => ({ path: snapshot.ref.path, id: snapshot.id, data: snapshot.data() });
+
+// Matches the lookup the app used to cancel legacy bookings.
+const legacyKey = (data: DocumentData) => `${data.equipmentId}|${data.userId}|${(data.bookedAt as Timestamp).toMillis()}`;
+
+const sameValue = (a: unknown, b: unknown) => (a instanceof Timestamp && b instanceof Timestamp ? a.isEqual(b) : a === b);
+
+const diffFields = (a: DocumentData, b: DocumentData) => COMPARED_FIELDS.filter(field => !sameValue(a[field], b[field]));
+
+// The public copy wins on times and names because that is what the calendar and overlap
+// checks saw. A cancellation on either side wins, since the app only ever awaited the write
+// to the user copy.
+const mergeCopies = (publicData: DocumentData, userData: DocumentData): DocumentData => {
+  if (publicData.status === 'cancelled' || userData.status !== 'cancelled') return publicData;
+  return { ...publicData, status: 'cancelled', cancelledAt: userData.cancelledAt ?? Timestamp.now() };
+};
+
+const parseArgs = (argv: string[]) => {
+  const appIdIndex = argv.indexOf('--app-id');
+  const appId = appIdIndex >= 0 ? argv[appIdIndex + 1] : process.env.VITE_FIREBASE_APP_ID;
+  if (!appId) throw new Error('Missing --app-id (or VITE_FIREBASE_APP_ID).');
+  return { appId, apply: argv.includes('--apply') };
+};
+
+async function migrate(appId: string, apply: boolean): Promise<MigrationReport> {
+  const db = getFirestore(initializeApp());
+  const bookingsRef = db.collection(`artifacts/${appId}/public/data/bookings`);
+  const report: MigrationReport = { canonical: 0, merged: 0, mismatched: [], orphanedUserCopies: [], orphanedPublicCopies: [], duplicatesRemoved: [] };
+
+  const publicCopies = (await bookingsRef.get()).docs.map(toCopy);
+  const publicById = new Map(publicCopies.map(copy => [copy.id, copy]));
+  const publicByKey = new Map<string, BookingCopy[]>();
+  publicCopies.forEach(copy => publicByKey.set(legacyKey(copy.data), [...(publicByKey.get(legacyKey(copy.data)) ?? []), copy]));
+
+  // listDocuments() also returns user documents that only exist as parents of subcollections.
+  const userRefs = await db.collection(`artifacts/${appId}/users`).listDocuments();
+  const userCopies = (await Promise.all(userRefs.map(ref => ref.collection('bookings').get()))).flatMap(snapshot => snapshot.docs.map(toCopy));
+
+  const writer = db.bulkWriter();
+  const handledPublicPaths = new Set<string>();
+
+  for (const userCopy of userCopies) {
+    const byId = publicById.get(userCopy.id);
+    const candidates = (byId ? [byId] : publicByKey.get(legacyKey(userCopy.data)) ?? []).filter(copy => !handledPublicPaths.has(copy.path));
+
+    if (candidates.length === 0) {
+      report.orphanedUserCopies.push(userCopy.path);
+      if (apply) writer.create(bookingsRef.doc(userCopy.id), userCopy.data);
+    } else {
+      const [kept, ...duplicates] = candidates;
+      duplicates.forEach(copy => {
+        report.duplicatesRemoved.push(copy.path);
+        if (apply) writer.delete(db.doc(copy.path));
+      });
+      const fields = diffFields(kept.data, userCopy.data);
+      if (fields.length > 0) {
+        report.mismatched.push({ publicPath: kept.path, userPath: userCopy.path, fields });
+        const merged = mergeCopies(kept.data, userCopy.data);
+        if (merged !== kept.data) {
+          report.merged++;
+          if (apply) writer.set(db.doc(kept.path), merged);
+        }
+      }
+      candidates.forEach(copy => handledPublicPaths.add(copy.path));
+    }
+    if (apply) writer.delete(db.doc(userCopy.path));
+  }
+
+  publicCopies.filter(copy => !handledPublicPaths.has(copy.path)).forEach(copy => report.orphanedPublicCopies.push(copy.path));
+  report.canonical = publicCopies.length - report.duplicatesRemoved.length + report.orphanedUserCopies.length;
+
+  await writer.close();
+  if (apply) await rebuildSchedules(appId);
+  return report;
+}
+
+// Schedules may still list bookings that the merge cancelled or removed, so rebuild them
+// from the canonical collection.
+async function rebuildSchedules(appId: string) {
+  const db = getFirestore();
+  const now = Timestamp.now();
+  const upcoming = await db.collection(`artifacts/${appId}/public/data/bookings`).where('status', 'in', ['pending', 'booked']).get();
+  const slotsByEquipment = new Map<string, { bookingId: string; start: Timestamp; end: Timestamp }[]>();
+  upcoming.docs.filter(snapshot => (snapshot.data().endDate as Timestamp).toMillis() > now.toMillis()).forEach(snapshot => {
+    const { equipmentId, startDate, endDate } = snapshot.data();
+    slotsByEquipment.set(equipmentId, [...(slotsByEquipment.get(equipmentId) ?? []), { bookingId: snapshot.id, start: startDate, end: endDate }]);
+  });
+
+  const writer = db.bulkWriter();
+  const schedulesRef = db.collection(`artifacts/${appId}/public/data/schedules`);
+  (await schedulesRef.listDocuments()).forEach(ref => {
+    if (!slotsByEquipment.has(ref.id)) writer.set(ref, { slots: [], updatedAt: now });
+  });
+  slotsByEquipment.forEach((slots, equipmentId) => writer.set(schedulesRef.doc(equipmentId), { slots, updatedAt: now }));
+  await writer.close();
+}
+
+const printReport = (report: MigrationReport, apply: boolean) => {
+  console.log(apply ? 'Migration applied.' : 'Dry run (pass --apply to write changes).');
+  console.log(`Canonical bookings after migration: ${report.canonical}`);
+  console.log(`Copies merged: ${report.merged}`);
+  console.log(`Mismatched copies (${report.mismatched.length}):`);
+  report.mismatched.forEach(m => console.log(`  ${m.userPath} <> ${m.publicPath}: ${m.fields.join(', ')}`));
+  console.log(`User copies without a public copy, promoted to canonical (${report.orphanedUserCopies.length}):`);
+  report.orphanedUserCopies.forEach(path => console.log(`  ${path}`));
+  console.log(`Public copies without a user copy, kept as canonical (${report.orphanedPublicCopies.length}):`);
+  report.orphanedPublicCopies.forEach(path => console.log(`  ${path}`));
+  console.log(`Duplicate public copies removed (${report.duplicatesRemoved.length}):`);
+  report.duplicatesRemoved.forEach(path => console.log(`  ${path}`));
+};
+
+const { appId, apply } = parseArgs(process.argv.slice(2));
+migrate(appId, apply)
+  .then(report => printReport(report, apply))
+  .catch(error => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,224 @@
+// scripts/notification-worker.ts
+//
+// Delivers the email outbox at artifacts/{appId}/notifications, queues booking reminders and
+// releases confirmed bookings nobody checked in to as no-shows. It also prunes the stale slots
+// that cancelled and moved bookings leave in the equipment schedules.
+// The app writes a notification document in the same transaction as each booking change;
+// this worker takes the recipient's address from Firebase Auth, where users cannot change it,
+// checks their preferences on their profile, renders the message and hands it to the
+// configured transport.
+//
+// Usage:
+//   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run notifications -- --app-id <appId>
+//
+// Transports (MAIL_TRANSPORT):
+//   smtp     SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE=true for implicit TLS.
+//            For local testing point it at a catch-all such as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025).
+//   console  Print messages instead of sending them (the default).
+// MAIL_FROM sets the sender and APP_URL is linked from every message. Set
+// FIRESTORE_EMULATOR_HOST to run against the local emulator.
+
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { FieldValue, getFirestore, Timestamp, type DocumentData, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import nodemailer from 'nodemailer';
+import { createBookingService, type Actor } from '../src/data/bookingService';
+import { createAdminStore } from './admin-store';
+
+type NotificationType = 'bookingConfirmed' | 'bookingCancelled' | 'bookingNoShow' | 'bookingMoved' | 'waitlistPromoted' | 'equipmentChanged' | 'bookingReminder';
+
+// Mirrors NotificationPreferences in src/App.tsx.
+interface NotificationPreferences {
+  confirmations: boolean;
+  cancellations: boolean;
+  reminders: boolean;
+  reminderHours: number;
+  equipmentChanges: boolean;
+}
+
+interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a rendered message; add new transports here.
+interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = { confirmations: true, cancellations: true, reminders: true, reminderHours: 24, equipmentChanges: true };
+// Largest reminder lead time the app offers; bookings further out are not scanned.
+const MAX_REMINDER_HOURS = 48;
+const REMINDER_SCAN_INTERVAL_MS = 5 * 60 * 1000;
+const NO_SHOW_SCAN_INTERVAL_MS = 60 * 1000;
+const SCHEDULE_PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+// A claimed notification still sending after this long is taken to be abandoned.
+const STALLED_SENDING_MS = 10 * 60 * 1000;
+const MAX_DELIVERY_ATTEMPTS = 3;
+// Recorded in the audit log as the author of no-show releases.
+const SYSTEM_ACTOR: Actor = { id: 'system', name: 'System', role: 'admin' };
+
+const PREFERENCE_FOR: Record<NotificationType, keyof NotificationPreferences> = {
+  bookingConfirmed: 'confirmations',
+  waitlistPromoted: 'confirmations',
+  bookingCancelled: 'cancellations',
+  bookingNoShow: 'cancellations',
+  bookingMoved: 'equipmentChanges',
+  equipmentChanged: 'equipmentChanges',
+  bookingReminder: 'reminders',
+};
+
+const parseArgs = (argv: string[]) => {
+  const appIdIndex = argv.indexOf('--app-id');
+  const appId = appIdIndex >= 0 ? argv[appIdIndex + 1] : process.env.VITE_FIREBASE_APP_ID;
+  if (!appId) throw new Error('Missing --app-id (or VITE_FIREBASE_APP_ID).');
+  return { appId };
+};
+
+const createTransport = (env: NodeJS.ProcessEnv): MailTransport => {
+  const from = env.MAIL_FROM ?? 'Equipment Booking <no-reply@localhost>';
+  if (env.MAIL_TRANSPORT === 'smtp') {
+    const smtp = nodemailer.createTransport({
+      host: env.SMTP_HOST ?? 'localhost',
+      port: Number(env.SMTP_PORT ?? 1025),
+      secure: env.SMTP_SECURE === 'true',
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    });
+    return { send: async message => { await smtp.sendMail({ from, ...message }); } };
+  }
+  return { send: async message => console.log(`--- To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`) };
+};
+
+// Slots are shown in the lab's time zone (LabSettings.timeZone in src/data/types.ts), as in the
+// app, falling back to the worker's own zone while the lab has none set.
+const formatSlot = (slot: { start: Timestamp; end: Timestamp }, timeZone: string | undefined) =>
+  `${slot.start.toDate().toLocaleString(undefined, { timeZone })} – ${slot.end.toDate().toLocaleString(undefined, { timeZone, timeZoneName: 'short' })}`;
+
+const renderMessage = (notification: DocumentData, displayName: string, appUrl: string | undefined, timeZone: string | undefined): Omit<MailMessage, 'to'> => {
+  const slots = (notification.slots as { start: Timestamp; end: Timestamp }[]).map(slot => `  • ${formatSlot(slot, timeZone)}`).join('\n');
+  const equipment = notification.equipmentName as string;
+  const pending = notification.bookingStatus === 'pending' ? '\n\nThe booking is waiting for lab manager approval.' : '';
+  const reason = notification.detail ? `\n\nReason: ${notification.detail}` : '';
+  const [subject, body] = ({
+    bookingConfirmed: [`Booking received: ${equipment}`, `Your booking for ${equipment} has been recorded:\n\n${slots}${pending}`],
+    waitlistPromoted: [`Booked from the waitlist: ${equipment}`, `A slot you were waiting for on ${equipment} became free and has been booked for you:\n\n${slots}${pending}`],
+    bookingCancelled: [`Booking cancelled: ${equipment}`, `The following booking for ${equipment} has been cancelled:\n\n${slots}${reason}`],
+    bookingNoShow: [`Booking released: ${equipment}`, `You did not check in for the following booking for ${equipment}, so it was released as a no-show:\n\n${slots}`],
+    equipmentChanged: [`Equipment updated: ${equipment}`, `${equipment} was changed by a lab manager. Please check its details before your upcoming bookings:\n\n${slots}`],
+    bookingMoved: [`Booking moved to ${equipment}`, `${notification.detail} was archived by a lab manager, so your upcoming bookings have been moved to ${equipment}:\n\n${slots}`],
+    bookingReminder: [`Reminder: ${equipment} booking`, `Your booking for ${equipment} starts soon:\n\n${slots}`],
+  } satisfies Record<NotificationType, [string, string]>)[notification.type as NotificationType];
+  return { subject, text: `Hello ${displayName},\n\n${body}${appUrl ? `\n\nManage your bookings at ${appUrl}` : ''}\n` };
+};
+
+async function deliver(appId: string, snapshot: QueryDocumentSnapshot, transport: MailTransport) {
+  const db = getFirestore();
+  // Claim the notification first so that two workers never send it twice.
+  const claimed = await db.runTransaction(async transaction => {
+    const current = await transaction.get(snapshot.ref);
+    if (current.data()?.status !== 'queued') return false;
+    transaction.update(snapshot.ref, { status: 'sending', claimedAt: Timestamp.now(), attempts: FieldValue.increment(1) });
+    return true;
+  });
+  if (!claimed) return;
+
+  try {
+    const notification = snapshot.data();
+    const profile = (await db.doc(`artifacts/${appId}/users/${notification.userId}`).get()).data();
+    const preferences: NotificationPreferences = { ...DEFAULT_PREFERENCES, ...profile?.notificationPreferences };
+    // The profile's email field is editable by its owner, so it is never used as the recipient.
+    const email = await getAuth().getUser(notification.userId).then(user => user.email, (error: { code?: string }) => {
+      if (error.code === 'auth/user-not-found') return undefined;
+      throw error;
+    });
+    if (!email || !preferences[PREFERENCE_FOR[notification.type as NotificationType]]) {
+      await snapshot.ref.update({ status: 'skipped', processedAt: Timestamp.now() });
+      return;
+    }
+    const timeZone = (await db.doc(`artifacts/${appId}/public/data/settings/lab`).get()).data()?.timeZone as string | undefined;
+    await transport.send({ to: email, ...renderMessage(notification, profile?.displayName ?? email, process.env.APP_URL, timeZone) });
+    await snapshot.ref.update({ status: 'sent', processedAt: Timestamp.now() });
+  } catch (error) {
+    await snapshot.ref.update({ status: 'failed', error: (error as Error).message, processedAt: Timestamp.now() });
+  }
+}
+
+// Puts back notifications a worker claimed but never finished, for example because it
+// crashed, so the listener delivers them again. Such a message may already have gone out,
+// so each gets MAX_DELIVERY_ATTEMPTS tries before it is marked failed.
+async function requeueStalled(appId: string) {
+  const db = getFirestore();
+  const cutoff = Date.now() - STALLED_SENDING_MS;
+  const sending = await db.collection(`artifacts/${appId}/notifications`).where('status', '==', 'sending').get();
+  for (const notification of sending.docs) {
+    await db.runTransaction(async transaction => {
+      const current = (await transaction.get(notification.ref)).data();
+      const claimedAt = current?.claimedAt as Timestamp | undefined;
+      if (current?.status !== 'sending' || (claimedAt && claimedAt.toMillis() > cutoff)) return;
+      transaction.update(notification.ref, (current.attempts ?? 1) >= MAX_DELIVERY_ATTEMPTS
+        ? { status: 'failed', error: `Not delivered after ${MAX_DELIVERY_ATTEMPTS} attempts`, processedAt: Timestamp.now() }
+        : { status: 'queued' });
+    });
+  }
+}
+
+// Queues a reminder for every confirmed booking that has entered its owner's reminder window.
+// The document ID includes the start time, so each start gets one reminder and a rescheduled
+// booking gets a new one.
+async function queueReminders(appId: string) {
+  const db = getFirestore();
+  const now = Date.now();
+  const upcoming = await db.collection(`artifacts/${appId}/public/data/bookings`)
+    .where('status', '==', 'booked')
+    .where('startDate', '>', Timestamp.fromMillis(now))
+    .where('startDate', '<=', Timestamp.fromMillis(now + MAX_REMINDER_HOURS * 3600000))
+    .get();
+  const preferencesByUser = new Map<string, NotificationPreferences>();
+  for (const booking of upcoming.docs) {
+    const { userId, equipmentName, startDate, endDate } = booking.data();
+    if (!preferencesByUser.has(userId)) {
+      const profile = (await db.doc(`artifacts/${appId}/users/${userId}`).get()).data();
+      preferencesByUser.set(userId, { ...DEFAULT_PREFERENCES, ...profile?.notificationPreferences });
+    }
+    const preferences = preferencesByUser.get(userId)!;
+    if (!preferences.reminders || (startDate as Timestamp).toMillis() - now > preferences.reminderHours * 3600000) continue;
+    try {
+      await db.doc(`artifacts/${appId}/notifications/reminder_${booking.id}_${(startDate as Timestamp).toMillis()}`).create({
+        type: 'bookingReminder', userId, equipmentName, slots: [{ start: startDate, end: endDate }], status: 'queued', createdAt: Timestamp.now(),
+      });
+    } catch (error) {
+      // ALREADY_EXISTS: the reminder was queued on an earlier scan.
+      if ((error as { code?: number }).code !== 6) throw error;
+    }
+  }
+}
+
+const { appId } = parseArgs(process.argv.slice(2));
+initializeApp();
+const transport = createTransport(process.env);
+
+getFirestore().collection(`artifacts/${appId}/notifications`).where('status', '==', 'queued').onSnapshot(
+  snapshot => snapshot.docChanges().filter(change => change.type === 'added').forEach(change => {
+    deliver(appId, change.doc, transport).catch(error => console.error(`Failed to deliver ${change.doc.id}:`, error));
+  }),
+  error => {
+    console.error('Notification listener failed:', error);
+    process.exit(1);
+  },
+);
+
+const scanReminders = () => queueReminders(appId).catch(error => console.error('Failed to queue reminders:', error));
+scanReminders();
+setInterval(scanReminders, REMINDER_SCAN_INTERVAL_MS);
+const scanStalled = () => requeueStalled(appId).catch(error => console.error('Failed to requeue stalled notifications:', error));
+scanStalled();
+setInterval(scanStalled, STALLED_SENDING_MS);
+const bookingService = createBookingService(createAdminStore(getFirestore()), appId);
+const scanNoShows = () => bookingService.releaseNoShows(SYSTEM_ACTOR).catch(error => console.error('Failed to release no-shows:', error));
+scanNoShows();
+setInterval(scanNoShows, NO_SHOW_SCAN_INTERVAL_MS);
+const pruneSchedules = () => bookingService.pruneSchedules().catch(error => console.error('Failed to prune schedules:', error));
+pruneSchedules();
+setInterval(pruneSchedules, SCHEDULE_PRUNE_INTERVAL_MS);
+console.log(`Delivering notifications for ${appId}.`);
@@ -2,34 +2,368 @@
 
 // --- Firebase Imports ---
 import { initializeApp } from "firebase/app";
-import { getAuth, onAuthStateChanged, GoogleAuthProvider, signInWithPopup, signOut } from "firebase/auth";
-import { getFirestore, collection, onSnapshot, doc, addDoc, updateDoc, deleteDoc, query, where, getDocs, Timestamp } from "firebase/firestore";
+import { getAuth, onAuthStateChanged, GoogleAuthProvider, signInWithPopup, signOut, connectAuthEmulator, type Auth } from "firebase/auth";
+import { getStorage, connectStorageEmulator, ref as storageRef, uploadBytes, getDownloadURL, type FirebaseStorage } from "firebase/storage";
+import { getFirestore, connectFirestoreEmulator, collection, onSnapshot, doc, updateDoc, deleteDoc, query, where, getDoc, setDoc, Timestamp, type Firestore } from "firebase/firestore";
 
 // --- React Imports ---
 import React, { useState, useEffect, useRef } from 'react';
 
+import { toCsv } from './csv';
+import { buildCalendar, type IcsBooking } from './ics';
+import { BookingConflictError, BookingRuleError, createBookingService, type Actor, type BookingService, type LabSnapshot } from './data/bookingService';
+import { createFirestoreStore } from './data/firestoreStore';
+import {
+  ACTIVE_STATUSES, DEFAULT_BOOKING_RULES, DEFAULT_LAB_SETTINGS, DEFAULT_NO_SHOW_POLICY, DEFAULT_OPENING_HOURS, MAX_OCCURRENCES, NO_QUOTA,
+  bookingRulesOf, canBook, canCheckIn, canManageEquipment, canManageRoles, countedNoShows, dailyHoursOn, equipmentStatusOf, formatMinutes, labTimeZoneOf,
+  noShowPolicyOf, openingHoursOf, quotaPoliciesOf, rangesOverlap, upcomingBookingsOn, validateMove,
+} from './data/rules';
+import {
+  addDaysToKey, browserTimeZone, formatDateKeyTime, fromLabWallClock, isValidTimeZone, minutesOfDay, minutesToTime, parseLocalDateTime, timeToMinutes, toDateKey,
+  toLabWallClock, weekdayOf,
+} from './data/time';
+import type {
+  AuditAction, AuditEntry, AuditTargetType, Blackout, Booking, BookingRules, BookingStatus, DailyHours, Equipment, EquipmentStatus, Holiday, LabSettings,
+  NoShowPolicy, Occurrence, OpeningHours, QuotaPolicies, QuotaPolicy, RecurrenceRule, Role, WaitlistEntry,
+} from './data/types';
+import { LOCALES, LOCALE_NAMES, formatInTimeZone, getLocale, setLocale, t, weekdayName, type Locale } from './i18n';
+
 // --- 类型定义 ---
-interface Equipment {
+interface UserProfile {
   id: string;
-  name: string;
-  description: string;
+  displayName: string;
+  email: string;
+  photoURL: string;
+  role: Role;
+  notificationPreferences?: NotificationPreferences;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
 
-interface Booking {
+// Which emails a user wants; stored on their profile and honoured by scripts/notification-worker.ts.
+interface NotificationPreferences {
+  confirmations: boolean;
+  cancellations: boolean;
+  reminders: boolean;
+  reminderHours: number;
+  equipmentChanges: boolean;
+}
+
+type CalendarFeedScope = 'user' | 'equipment';
+
+// A subscribable .ics feed served by scripts/calendar-feed-server.ts. The document ID is the
+// secret token in the feed URL, so deleting the document revokes the feed.
+interface CalendarFeed {
   id: string;
+  ownerId: string;
+  scope: CalendarFeedScope;
+  equipmentId?: string;
+  equipmentName?: string;
+  // Language of the feed's calendar name and event text.
+  locale?: Locale;
+  createdAt: Timestamp;
+}
+
+interface AuditFilters {
+  from: string;
+  to: string;
+  targetType: AuditTargetType | '';
+  action: AuditAction | '';
+  search: string;
+}
+
+const STATUS_BADGE_CLASSES: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  booked: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-200 text-gray-700',
+  cancelled: 'bg-red-100 text-red-800',
+  noShow: 'bg-orange-100 text-orange-800',
+};
+
+const DEFAULT_RECURRENCE: RecurrenceRule = { frequency: 'none', interval: 1, weekdays: [], endType: 'count', until: '', count: 4 };
+
+// --- Equipment ---
+const EQUIPMENT_STATUS_BADGE_CLASSES: Record<EquipmentStatus, string> = {
+  available: 'bg-green-100 text-green-800',
+  maintenance: 'bg-yellow-100 text-yellow-800',
+  retired: 'bg-gray-200 text-gray-700',
+};
+const EQUIPMENT_STATUSES = Object.keys(EQUIPMENT_STATUS_BADGE_CLASSES) as EquipmentStatus[];
+// --- Opening Hours & Closures ---
+const HOUR_OPTIONS = Array.from({ length: 24 * 4 + 1 }, (_, i) => minutesToTime(i * 15));
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const openWeekdays = (hours: OpeningHours) => hours.flatMap((h, weekday) => (h ? [{ ...h, weekday }] : []));
+
+// FullCalendar businessHours for a week of opening hours.
+const toBusinessHours = (hours: OpeningHours): BusinessHours => openWeekdays(hours).map(h => ({ daysOfWeek: [h.weekday], startTime: h.open, endTime: h.close }));
+
+// The earliest opening and latest closing time across the week, for the calendar's visible range.
+const openingRange = (hours: OpeningHours[]) => {
+  const open = hours.flatMap(openWeekdays);
+  return open.length === 0
+    ? { min: '08:00', max: '17:00' }
+    : { min: minutesToTime(Math.min(...open.map(h => timeToMinutes(h.open)))), max: minutesToTime(Math.max(...open.map(h => timeToMinutes(h.close)))) };
+};
+
+interface EquipmentForm extends BookingRules {
+  name: string;
+  description: string;
+  category: string;
+  location: string;
+  responsiblePerson: string;
+  status: EquipmentStatus;
+  requiresApproval: boolean;
+}
+
+const toEquipmentForm = (equipment?: Equipment): EquipmentForm => ({
+  name: equipment?.name ?? '',
+  description: equipment?.description ?? '',
+  category: equipment?.category ?? '',
+  location: equipment?.location ?? '',
+  responsiblePerson: equipment?.responsiblePerson ?? '',
+  status: equipment ? equipmentStatusOf(equipment) : 'available',
+  requiresApproval: !!equipment?.requiresApproval,
+  ...(equipment ? bookingRulesOf(equipment) : DEFAULT_BOOKING_RULES),
+});
+
+const fromEquipmentForm = ({ minDurationMinutes, maxDurationMinutes, slotMinutes, leadTimeHours, ...fields }: EquipmentForm) => ({
+  ...fields,
+  bookingRules: { minDurationMinutes, maxDurationMinutes, slotMinutes, leadTimeHours },
+});
+
+// --- Roles & Permissions ---
+// Keep in sync with the role helpers in firestore.rules.
+const ROLES: Role[] = ['admin', 'labManager', 'member', 'viewer'];
+// Role assigned to a user the first time they sign in.
+const DEFAULT_ROLE: Role = 'member';
+
+// --- Notifications ---
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { confirmations: true, cancellations: true, reminders: true, reminderHours: 24, equipmentChanges: true };
+const REMINDER_HOUR_OPTIONS = [1, 2, 4, 12, 24, 48];
+
+// --- Quotas ---
+const QUOTA_FIELDS: (keyof QuotaPolicy)[] = ['maxHoursPerWeek', 'maxActiveBookings', 'maxAdvanceDays', 'cooldownMinutes'];
+
+// --- Calendar Export ---
+const toIcsBooking = (booking: Booking, equipmentList: Equipment[]): IcsBooking => ({
+  id: booking.id,
+  equipmentName: booking.equipmentName,
+  userDisplayName: booking.userDisplayName,
+  location: equipmentList.find(e => e.id === booking.equipmentId)?.location,
+  start: booking.startDate.toDate(),
+  end: booking.endDate.toDate(),
+  status: booking.status,
+  bookedAt: booking.bookedAt.toDate(),
+  updatedAt: booking.updatedAt?.toDate(),
+  reviewedAt: booking.reviewedAt?.toDate(),
+  cancelledAt: booking.cancelledAt?.toDate(),
+});
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 192 random bits, hex encoded; used as the feed document ID and URL token.
+const generateFeedToken = () => Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// --- Reports ---
+type ReportPeriod = 'week' | 'month';
+
+interface ReportFilters {
+  from: string;
+  to: string;
   equipmentId: string;
-  equipmentName: string;
-  userId: string;
-  userDisplayName: string;
-  startDate: Timestamp;
-  endDate: Timestamp;
-  status: 'booked' | 'cancelled';
-  bookedAt: Timestamp;
-  cancelledAt?: Timestamp;
+  period: ReportPeriod;
 }
 
+// One exportable table; cells are plain values so they can go to CSV and XLSX unchanged.
+interface ReportTable {
+  // English file name stem, so exported file names do not depend on the UI language.
+  name: string;
+  title: string;
+  header: string[];
+  rows: (string | number)[][];
+}
+
+// The subset of the SheetJS global (loaded from the CDN in index.html) used for XLSX export.
+interface SheetJs {
+  utils: {
+    book_new: () => unknown;
+    aoa_to_sheet: (rows: (string | number)[][]) => unknown;
+    book_append_sheet: (workbook: unknown, sheet: unknown, name: string) => void;
+  };
+  writeFile: (workbook: unknown, filename: string) => void;
+}
+
+const HOUR_MS = 3600000;
+const overlapHours = (start: Date, end: Date, from: Date, to: Date) => Math.max(0, Math.min(end.getTime(), to.getTime()) - Math.max(start.getTime(), from.getTime())) / HOUR_MS;
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+const formatPercent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 1000) / 10}%` : '—');
+
+// Defaults to the current quarter in the lab, which is what the quarterly reviews look at.
+const defaultReportFilters = (timeZone: string): ReportFilters => {
+  const today = toDateKey(new Date(), timeZone);
+  const quarterStart = `${today.slice(0, 5)}${String(Math.floor((Number(today.slice(5, 7)) - 1) / 3) * 3 + 1).padStart(2, '0')}-01`;
+  return { from: quarterStart, to: today, equipmentId: '', period: 'month' };
+};
+
+// Periods are calendar months, or weeks starting on Monday, in the lab's time zone.
+const periodLabel = (date: Date, period: ReportPeriod, timeZone: string) => {
+  const dateKey = toDateKey(date, timeZone);
+  if (period === 'month') return dateKey.slice(0, 7);
+  return t('reports.weekOf', addDaysToKey(dateKey, -((weekdayOf(date, timeZone) + 6) % 7)));
+};
+
+// Hours a device is open between from and to, skipping holidays.
+const openHoursBetween = (settings: LabSettings, equipment: Equipment | null, from: Date, to: Date) => {
+  const timeZone = labTimeZoneOf(settings);
+  let total = 0;
+  for (let day = toDateKey(from, timeZone); parseLocalDateTime(day, '00:00', timeZone) < to; day = addDaysToKey(day, 1)) {
+    const hours = dailyHoursOn(settings, equipment, day);
+    if (hours) total += overlapHours(parseLocalDateTime(day, hours.open, timeZone), parseLocalDateTime(day, hours.close, timeZone), from, to);
+  }
+  return total;
+};
+
+// Builds every report table for the bookings that overlap [from, to). Only confirmed bookings
+// count towards booked hours; cancellation rates are cancelled bookings over all requests.
+const buildReports = (bookings: Booking[], equipmentList: Equipment[], settings: LabSettings, filters: ReportFilters) => {
+  const timeZone = labTimeZoneOf(settings);
+  const from = parseLocalDateTime(filters.from, '00:00', timeZone);
+  const to = parseLocalDateTime(filters.to, '24:00', timeZone);
+  const inRange = bookings.filter(b => (!filters.equipmentId || b.equipmentId === filters.equipmentId) && rangesOverlap(b.startDate.toDate(), b.endDate.toDate(), from, to));
+
+  const byEquipment = new Map<string, { name: string; requests: number; cancelled: number; hours: number }>();
+  const byUser = new Map<string, { name: string; requests: number; cancelled: number; hours: number }>();
+  const byPeriod = new Map<string, { requests: number; cancelled: number; hours: number }>();
+  // Booked hours by weekday (rows, Sunday first) and hour of day (columns).
+  const heatmap = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+
+  equipmentList
+    .filter(e => (filters.equipmentId ? e.id === filters.equipmentId : equipmentStatusOf(e) !== 'retired' && !e.archivedAt))
+    .forEach(e => byEquipment.set(e.id, { name: e.name, requests: 0, cancelled: 0, hours: 0 }));
+
+  inRange.forEach(b => {
+    const start = b.startDate.toDate();
+    const end = b.endDate.toDate();
+    const equipmentRow = byEquipment.get(b.equipmentId) ?? { name: b.equipmentName, requests: 0, cancelled: 0, hours: 0 };
+    const userRow = byUser.get(b.userId) ?? { name: b.userDisplayName, requests: 0, cancelled: 0, hours: 0 };
+    const requestPeriod = periodLabel(start < from ? from : start, filters.period, timeZone);
+    const periodRow = byPeriod.get(requestPeriod) ?? { requests: 0, cancelled: 0, hours: 0 };
+    [equipmentRow, userRow, periodRow].forEach(row => {
+      row.requests += 1;
+      if (b.status === 'cancelled') row.cancelled += 1;
+    });
+    byEquipment.set(b.equipmentId, equipmentRow);
+    byUser.set(b.userId, userRow);
+    byPeriod.set(requestPeriod, periodRow);
+    if (b.status !== 'booked') return;
+
+    const hours = overlapHours(start, end, from, to);
+    equipmentRow.hours += hours;
+    userRow.hours += hours;
+    // Walk the booking hour by hour so long bookings spread across periods and the heatmap.
+    // Hours are lab-local, so they end wherever the lab's clock shows a full hour.
+    for (let hourStart = new Date(Math.max(start.getTime(), from.getTime())); hourStart < end && hourStart < to; ) {
+      const minutes = minutesOfDay(hourStart, timeZone);
+      const hourEnd = new Date(hourStart.getTime() + (60 - (minutes % 60)) * 60000 - hourStart.getSeconds() * 1000 - hourStart.getMilliseconds());
+      const share = overlapHours(hourStart, hourEnd, start, end < to ? end : to);
+      heatmap[weekdayOf(hourStart, timeZone)][Math.floor(minutes / 60)] += share;
+      const label = periodLabel(hourStart, filters.period, timeZone);
+      const row = byPeriod.get(label) ?? { requests: 0, cancelled: 0, hours: 0 };
+      row.hours += share;
+      byPeriod.set(label, row);
+      hourStart = hourEnd;
+    }
+  });
+
+  const equipmentTable: ReportTable = {
+    name: 'booked-hours-per-equipment',
+    title: t('reports.equipmentTitle'),
+    header: [t('common.equipment'), t('reports.bookings'), t('reports.bookedHours'), t('reports.openingHours'), t('reports.utilisation'), t('reports.cancelled'), t('reports.cancellationRate')],
+    rows: [...byEquipment.entries()].sort((a, b) => b[1].hours - a[1].hours).map(([equipmentId, row]) => {
+      const equipment = equipmentList.find(e => e.id === equipmentId);
+      const openHours = equipment ? openHoursBetween(settings, equipment, from, to) : 0;
+      return [row.name, row.requests, roundHours(row.hours), roundHours(openHours), formatPercent(row.hours, openHours), row.cancelled, formatPercent(row.cancelled, row.requests)];
+    }),
+  };
+  const userTable: ReportTable = {
+    name: 'booked-hours-per-user',
+    title: t('reports.userTitle'),
+    header: [t('reports.user'), t('reports.bookings'), t('reports.bookedHours'), t('reports.cancelled'), t('reports.cancellationRate')],
+    rows: [...byUser.values()].sort((a, b) => b.hours - a.hours).map(row => [row.name, row.requests, roundHours(row.hours), row.cancelled, formatPercent(row.cancelled, row.requests)]),
+  };
+  const periodTable: ReportTable = {
+    name: `booked-hours-per-${filters.period}`,
+    title: filters.period === 'month' ? t('reports.monthTitle') : t('reports.weekTitle'),
+    header: [filters.period === 'month' ? t('reports.month') : t('reports.week'), t('reports.bookings'), t('reports.bookedHours'), t('reports.cancelled'), t('reports.cancellationRate')],
+    rows: [...byPeriod.entries()].sort((a, b) => a[0].localeCompare(b[0])).map(([label, row]) => [label, row.requests, roundHours(row.hours), row.cancelled, formatPercent(row.cancelled, row.requests)]),
+  };
+  // Monday first, matching the rest of the lab's schedules.
+  const weekdayOrder = [1, 2, 3, 4, 5, 6, 0];
+  const heatmapTable: ReportTable = {
+    name: 'booked-hours-by-weekday-and-hour',
+    title: t('reports.heatmapTitle'),
+    header: [t('reports.weekday'), ...Array.from({ length: 24 }, (_, hour) => `${String(hour).padStart(2, '0')}:00`)],
+    rows: weekdayOrder.map(weekday => [weekdayName(weekday), ...heatmap[weekday].map(roundHours)]),
+  };
+  return { equipmentTable, userTable, periodTable, heatmapTable };
+};
+
+const reportFilename = (table: ReportTable, filters: Pick<ReportFilters, 'from' | 'to'>, extension: string) =>
+  `${table.name}_${filters.from}_${filters.to}.${extension}`;
+
+const downloadXlsx = (table: ReportTable, filename: string) => {
+  const xlsx = window.XLSX;
+  if (!xlsx) throw new Error(t('reports.xlsxMissing'));
+  const workbook = xlsx.utils.book_new();
+  // Sheet names are limited to 31 characters.
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([table.header, ...table.rows]), table.title.slice(0, 31));
+  xlsx.writeFile(workbook, filename);
+};
+
+// --- Audit Log ---
+const AUDIT_ACTIONS: AuditAction[] = ['created', 'updated', 'deleted', 'archived', 'restored', 'rescheduled', 'cancelled', 'approved', 'rejected', 'checkedIn', 'checkedOut', 'noShow'];
+const AUDIT_TARGET_TYPES: AuditTargetType[] = ['equipment', 'booking', 'blackout', 'settings'];
+// Timestamps are shown as the lab's wall-clock time.
+const formatAuditValue = (value: unknown, timeZone: string): string => {
+  if (value === null || value === undefined) return '—';
+  if (value instanceof Timestamp) return formatDateKeyTime(value.toDate(), timeZone);
+  if (Array.isArray(value)) return `[${value.map(item => formatAuditValue(item, timeZone)).join(', ')}]`;
+  if (typeof value === 'object') return `{${Object.entries(value).map(([key, item]) => `${key}: ${formatAuditValue(item, timeZone)}`).join(', ')}}`;
+  return String(value);
+};
+const formatAuditChanges = (entry: AuditEntry, timeZone: string) =>
+  Object.entries(entry.changes).map(([field, change]) => `${field}: ${formatAuditValue(change.before, timeZone)} → ${formatAuditValue(change.after, timeZone)}`);
+
+const defaultAuditFilters = (timeZone: string): AuditFilters => {
+  const today = toDateKey(new Date(), timeZone);
+  return { from: addDaysToKey(today, -6), to: today, targetType: '', action: '', search: '' };
+};
+
+const filterAuditEntries = (entries: AuditEntry[], filters: AuditFilters) => {
+  const search = filters.search.trim().toLowerCase();
+  return entries.filter(entry => (!filters.targetType || entry.targetType === filters.targetType)
+    && (!filters.action || entry.action === filters.action)
+    && (!search || [entry.actorName, entry.targetName, entry.targetId].some(text => text.toLowerCase().includes(search))));
+};
+
+const auditTable = (entries: AuditEntry[], timeZone: string): ReportTable => ({
+  name: 'audit-log',
+  title: t('audit.title'),
+  header: [t('audit.time'), t('audit.actor'), t('audit.actorId'), t('audit.action'), t('audit.targetType'), t('audit.target'), t('audit.targetId'), t('audit.changes')],
+  rows: entries.map(entry => [
+    formatDateKeyTime(entry.at.toDate(), timeZone), entry.actorName, entry.actorId, t(`auditAction.${entry.action}`),
+    t(`auditTarget.${entry.targetType}`), entry.targetName, entry.targetId, formatAuditChanges(entry, timeZone).join('\n'),
+  ]),
+});
+
 // --- Firebase Configuration (using environment variables) ---
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY as string,
@@ -40,60 +374,154 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID as string,
   measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID as string,
 };
+// Point the app at the local emulators (see firebase.json) when developing security rules.
+const useEmulators = import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true';
+// Base URL of the calendar feed server; feeds are hidden when it is not configured.
+const calendarFeedBaseUrl = (import.meta.env.VITE_CALENDAR_FEED_URL as string | undefined)?.replace(/\/$/, '');
 
 // Custom Calendar Component that uses the global FullCalendar object
 declare global {
   interface Window {
-    FullCalendar: any;
+    FullCalendar?: { Calendar: new (element: HTMLElement, options: Record<string, unknown>) => CalendarApi };
+    XLSX?: SheetJs;
   }
 }
 
+interface CalendarEvent {
+  id?: string;
+  title: string;
+  // Instants, except for all-day events, whose dates are lab-local days at midnight UTC.
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  // 'background' renders holidays and blackouts as non-bookable shading.
+  display?: 'auto' | 'background';
+  color?: string;
+  // Whether the event can be dragged or resized to reschedule it.
+  editable?: boolean;
+}
+
+type BusinessHours = { daysOfWeek: number[]; startTime: string; endTime: string }[];
+
 interface CalendarComponentProps {
-  events: {
-    title: string;
-    start: Date;
-    end: Date;
-  }[];
+  events: CalendarEvent[];
+  // The calendar shows the lab's wall-clock time wherever it is viewed from.
+  timeZone: string;
+  locale: Locale;
+  // When given, the calendar shows only this lab-local day ('YYYY-MM-DD') without its own
+  // toolbar, as one column of a side-by-side view, headed by title.
+  date?: string;
+  title?: string;
+  slotMinTime?: string;
+  slotMaxTime?: string;
+  businessHours?: BusinessHours;
+  onSelect?: (start: Date, end: Date) => void;
+  onEventClick?: (eventId: string) => void;
+  onEventChange?: (eventId: string, start: Date, end: Date, revert: () => void) => void;
+}
+
+// The parts of the FullCalendar API and callback arguments this component uses.
+interface CalendarApi {
+  render(): void;
+  destroy(): void;
+  unselect(): void;
+  setOption(name: string, value: unknown): void;
+  batchRendering(callback: () => void): void;
+  gotoDate(date: Date): void;
+}
+
+interface CalendarSelectInfo {
+  start: Date;
+  end: Date;
+}
+
+interface CalendarEventInfo {
+  event: { id: string; start: Date; end: Date; display: string };
+  revert: () => void;
 }
 
-function CalendarComponent({ events }: CalendarComponentProps) {
+// FullCalendar names its locales in lower case.
+const CALENDAR_LOCALES: Record<Locale, string> = { en: 'en', 'zh-CN': 'zh-cn' };
+
+function CalendarComponent({ events, timeZone, locale, date, title, slotMinTime = '08:00', slotMaxTime = '17:00', businessHours, onSelect, onEventClick, onEventChange }: CalendarComponentProps) {
     const calendarRef = useRef<HTMLDivElement>(null);
+    const calendarApi = useRef<CalendarApi | null>(null);
+    // Handlers are recreated on every render, so the calendar reads them through a ref
+    // instead of being rebuilt (and losing its current view and date) each time.
+    const handlers = useRef({ onSelect, onEventClick, onEventChange });
+    const labTimeZone = useRef(timeZone);
+    const isColumn = date !== undefined;
+
+    useEffect(() => {
+        handlers.current = { onSelect, onEventClick, onEventChange };
+        labTimeZone.current = timeZone;
+    });
 
     useEffect(() => {
         if (calendarRef.current && window.FullCalendar) {
-            const calendar = new window.FullCalendar.Calendar(calendarRef.current, {
-                initialView: 'dayGridMonth',
+            const calendar: CalendarApi = new window.FullCalendar.Calendar(calendarRef.current, {
+                initialView: isColumn ? 'timeGridDay' : 'timeGridWeek',
                 height: 'auto',
-                headerToolbar: {
+                headerToolbar: isColumn ? false : {
                     left: 'prev,next today',
                     center: 'title',
                     right: 'dayGridMonth,timeGridWeek,timeGridDay,listWeek'
                 },
-                slotMinTime: '08:00:00',
-                slotMaxTime: '17:00:00',
-                events: events,
-                eventClick: (info: any) => {
-                    const { title, start, end } = info.event;
-                    alert(`Booking Details:\n- Event: ${title}\n- From: ${start.toLocaleString()}\n- To: ${end ? end.toLocaleString() : 'N/A'}`);
-                }
+                selectMirror: true,
+                // The calendar runs in UTC on shifted dates (see toLabWallClock) and converts back on the way out.
+                timeZone: 'UTC',
+                now: () => toLabWallClock(new Date(), labTimeZone.current),
+                selectAllow: (info: CalendarSelectInfo) => info.start >= toLabWallClock(new Date(), labTimeZone.current),
+                select: (info: CalendarSelectInfo) => {
+                    handlers.current.onSelect?.(fromLabWallClock(info.start, labTimeZone.current), fromLabWallClock(info.end, labTimeZone.current));
+                    calendar.unselect();
+                },
+                eventClick: (info: CalendarEventInfo) => {
+                    if (info.event.display === 'background' || !info.event.id) return;
+                    handlers.current.onEventClick?.(info.event.id);
+                },
+                eventDrop: (info: CalendarEventInfo) => handlers.current.onEventChange?.(info.event.id, fromLabWallClock(info.event.start, labTimeZone.current), fromLabWallClock(info.event.end, labTimeZone.current), info.revert),
+                eventResize: (info: CalendarEventInfo) => handlers.current.onEventChange?.(info.event.id, fromLabWallClock(info.event.start, labTimeZone.current), fromLabWallClock(info.event.end, labTimeZone.current), info.revert),
             });
             calendar.render();
-            return () => calendar.destroy();
+            calendarApi.current = calendar;
+            return () => { calendar.destroy(); calendarApi.current = null; };
         }
-    }, [events]);
+    }, [isColumn]);
+
+    // Calendar days are midnight UTC of the lab-local date, as in UTC mode.
+    useEffect(() => {
+        if (date) calendarApi.current?.gotoDate(new Date(`${date}T00:00Z`));
+    }, [date, isColumn]);
+
+    useEffect(() => {
+        const calendar = calendarApi.current;
+        if (!calendar) return;
+        calendar.batchRendering(() => {
+            calendar.setOption('locale', CALENDAR_LOCALES[locale]);
+            if (title) calendar.setOption('dayHeaderContent', title);
+            calendar.setOption('slotMinTime', slotMinTime);
+            calendar.setOption('slotMaxTime', slotMaxTime);
+            calendar.setOption('businessHours', businessHours ?? true);
+            calendar.setOption('selectable', !!onSelect);
+            calendar.setOption('events', events.map(e => (e.allDay ? e : { ...e, start: toLabWallClock(e.start, timeZone), end: toLabWallClock(e.end, timeZone) })));
+        });
+    });
 
     return <div ref={calendarRef}></div>;
 }
 
 // Main App component
 export default function App() {
-  const [db, setDb] = useState<any>(null);
-  const [auth, setAuth] = useState<any>(null);
+  const [db, setDb] = useState<Firestore | null>(null);
+  const [auth, setAuth] = useState<Auth | null>(null);
+  const [service, setService] = useState<BookingService | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [userDisplayName, setUserDisplayName] = useState<string>('');
   const [userPhotoURL, setUserPhotoURL] = useState<string>('');
   const [isAuthReady, setIsAuthReady] = useState<boolean>(false);
   const [equipmentList, setEquipmentList] = useState<Equipment[]>([]);
+  const [archivedEquipment, setArchivedEquipment] = useState<Equipment[]>([]);
   const [myBookings, setMyBookings] = useState<Booking[]>([]);
   const [allPublicBookings, setAllPublicBookings] = useState<Booking[]>([]);
   
@@ -103,20 +531,87 @@ export default function App() {
   const [showBookingModal, setShowBookingModal] = useState<boolean>(false);
   const [showCancelModal, setShowCancelModal] = useState<boolean>(false);
   const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
+  const [recurrenceForm, setRecurrenceForm] = useState<RecurrenceRule>(DEFAULT_RECURRENCE);
+  const [occurrenceReport, setOccurrenceReport] = useState<Occurrence[]>([]);
+  // Set while the booking modal edits an existing booking instead of creating one.
+  const [bookingToEdit, setBookingToEdit] = useState<Booking | null>(null);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  // Offered in the booking modal after a single booking hits a conflict.
+  const [canJoinWaitlist, setCanJoinWaitlist] = useState<boolean>(false);
+  // Lets a lab manager book past the quotas.
+  const [overrideQuotas, setOverrideQuotas] = useState<boolean>(false);
+  const [waitlistMessage, setWaitlistMessage] = useState<string>('');
+  const [calendarFeeds, setCalendarFeeds] = useState<CalendarFeed[]>([]);
+  const [feedEquipmentId, setFeedEquipmentId] = useState<string>('');
+  const [feedMessage, setFeedMessage] = useState<string>('');
+  // The lab's time zone is not known until the settings load; the browser's is close enough for a default range.
+  const [reportFilters, setReportFilters] = useState<ReportFilters>(() => defaultReportFilters(browserTimeZone()));
+  const [reportMessage, setReportMessage] = useState<string>('');
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditFilters, setAuditFilters] = useState<AuditFilters>(() => defaultAuditFilters(browserTimeZone()));
+  const [auditMessage, setAuditMessage] = useState<string>('');
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [preferencesMessage, setPreferencesMessage] = useState<string>('');
+  const [checkInMessage, setCheckInMessage] = useState<string>('');
+  const [noShowPolicyForm, setNoShowPolicyForm] = useState<NoShowPolicy>(DEFAULT_NO_SHOW_POLICY);
+  const [noShowMessage, setNoShowMessage] = useState<string>('');
+  // The user whose no-show history is open in the admin panel.
+  const [noShowHistoryUserId, setNoShowHistoryUserId] = useState<string | null>(null);
   
-  const [isAdmin, setIsAdmin] = useState<boolean>(true);
+  const [role, setRole] = useState<Role>('viewer');
+  const [userEmail, setUserEmail] = useState<string>('');
+  const [userProfiles, setUserProfiles] = useState<UserProfile[]>([]);
+  const [roleMessage, setRoleMessage] = useState<string>('');
   const [showAdminPanel, setShowAdminPanel] = useState<boolean>(false);
   const [showAddEquipmentModal, setShowAddEquipmentModal] = useState<boolean>(false);
   const [showEditEquipmentModal, setShowEditEquipmentModal] = useState<boolean>(false);
-  const [showDeleteEquipmentModal, setShowDeleteEquipmentModal] = useState<boolean>(false);
+  const [showArchiveEquipmentModal, setShowArchiveEquipmentModal] = useState<boolean>(false);
   const [equipmentToEdit, setEquipmentToEdit] = useState<Equipment | null>(null);
-  const [equipmentToDelete, setEquipmentToDelete] = useState<Equipment | null>(null);
-  const [equipmentForm, setEquipmentForm] = useState({ name: '', description: '' });
+  const [equipmentToArchive, setEquipmentToArchive] = useState<Equipment | null>(null);
+  // What happens to the future bookings of equipment being archived.
+  const [equipmentMessage, setEquipmentMessage] = useState<string>('');
+  const [archiveForm, setArchiveForm] = useState<{ action: 'cancel' | 'move'; targetId: string; reason: string }>({ action: 'cancel', targetId: '', reason: '' });
+  const [equipmentForm, setEquipmentForm] = useState<EquipmentForm>(toEquipmentForm());
+  const [equipmentImage, setEquipmentImage] = useState<File | null>(null);
+  const [storage, setStorage] = useState<FirebaseStorage | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<string>('');
+  const [showRejectModal, setShowRejectModal] = useState<boolean>(false);
+  const [bookingToReject, setBookingToReject] = useState<Booking | null>(null);
+  const [rejectionReason, setRejectionReason] = useState<string>('');
+  const [reviewMessage, setReviewMessage] = useState<string>('');
+  const [labSettings, setLabSettings] = useState<LabSettings>(DEFAULT_LAB_SETTINGS);
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  // '' edits the lab-wide hours, otherwise the id of the equipment being overridden.
+  const [hoursScope, setHoursScope] = useState<string>('');
+  // '' edits the lab-wide quotas, otherwise the equipment ID whose quotas are edited.
+  const [quotaScope, setQuotaScope] = useState<string>('');
+  const [quotaForm, setQuotaForm] = useState<QuotaPolicies>({});
+  const [quotaMessage, setQuotaMessage] = useState<string>('');
+  const [hoursForm, setHoursForm] = useState<OpeningHours>(DEFAULT_OPENING_HOURS);
+  const [holidayForm, setHolidayForm] = useState<Holiday>({ date: '', name: '' });
+  const [blackoutForm, setBlackoutForm] = useState({ equipmentId: '', start: '', end: '', reason: '' });
+  const [settingsMessage, setSettingsMessage] = useState<string>('');
+  const [timeZoneForm, setTimeZoneForm] = useState<string>('');
+  // '' shows every device side by side for one day, otherwise one device's calendar.
+  const [calendarScope, setCalendarScope] = useState<string>('');
+  // The lab-local day the all-equipment view shows; empty means today.
+  const [calendarDate, setCalendarDate] = useState<string>('');
+  const [calendarMessage, setCalendarMessage] = useState<string>('');
+  const [bookingDetails, setBookingDetails] = useState<Booking | null>(null);
 
   const userMenuRef = useRef<HTMLDivElement>(null);
   const [showUserMenu, setShowUserMenu] = useState<boolean>(false);
+  // Mirrors the i18n module's locale so that switching language re-renders the app.
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
   
   const appId = firebaseConfig.appId;
+  const isManager = canManageEquipment(role);
+  const isAdmin = canManageRoles(role);
+  const actor: Actor | null = userId ? { id: userId, name: userDisplayName, role } : null;
+  // Form fields, the calendar and every displayed time use the lab's wall-clock time.
+  const labTimeZone = labTimeZoneOf(labSettings);
+  // What the data layer checks new changes against: everything the subscriptions have loaded.
+  const labSnapshot = (): LabSnapshot => ({ equipment: [...equipmentList, ...archivedEquipment], bookings: allPublicBookings, settings: labSettings, blackouts });
 
   // --- Effects ---
   useEffect(() => {
@@ -129,12 +624,21 @@ export default function App() {
     const app = initializeApp(firebaseConfig);
     const firestore = getFirestore(app);
     const firebaseAuth = getAuth(app);
+    const firebaseStorage = getStorage(app);
+    if (useEmulators) {
+      connectFirestoreEmulator(firestore, '127.0.0.1', 8080);
+      connectAuthEmulator(firebaseAuth, 'http://127.0.0.1:9099', { disableWarnings: true });
+      connectStorageEmulator(firebaseStorage, '127.0.0.1', 9199);
+    }
     setDb(firestore);
+    setService(createBookingService(createFirestoreStore(firestore), firebaseConfig.appId));
+    setStorage(firebaseStorage);
     setAuth(firebaseAuth);
     const unsubscribe = onAuthStateChanged(firebaseAuth, (user) => {
       setUserId(user ? user.uid : null);
-      setUserDisplayName(user ? user.displayName || 'User' : '');
+      setUserDisplayName(user ? user.displayName || t('header.defaultUserName') : '');
       setUserPhotoURL(user ? user.photoURL || '' : '');
+      setUserEmail(user ? user.email || '' : '');
       setIsAuthReady(true);
     });
     return () => unsubscribe();
@@ -147,14 +651,14 @@ export default function App() {
       
       if (modifierKey && event.shiftKey && event.key.toLowerCase() === 'a') {
         event.preventDefault();
-        if (isAdmin) {
+        if (isManager) {
           setShowAdminPanel(prev => !prev);
         }
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isAdmin]);
+  }, [isManager]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -167,217 +671,1245 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (!db || !appId) return;
-    const unsubEquipment = onSnapshot(collection(db, `artifacts/${appId}/public/data/equipment`), (snapshot) => {
-      setEquipmentList(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as Omit<Equipment, 'id'> })));
+    if (!service) return;
+    const unsubEquipment = service.watchEquipment((equipment) => {
+      setEquipmentList(equipment.filter(e => !e.archivedAt));
+      setArchivedEquipment(equipment.filter(e => e.archivedAt));
+    });
+    const unsubBookings = service.watchBookings(setAllPublicBookings);
+    const unsubSettings = service.watchSettings(settings => setLabSettings({ ...DEFAULT_LAB_SETTINGS, ...settings }));
+    const unsubBlackouts = service.watchBlackouts(setBlackouts);
+    return () => { unsubEquipment(); unsubBookings(); unsubSettings(); unsubBlackouts(); };
+  }, [service]);
+
+  // Reload the hours editor whenever its scope or the stored hours change.
+  useEffect(() => {
+    const equipment = equipmentList.find(e => e.id === hoursScope) ?? null;
+    setHoursForm(openingHoursOf(labSettings, equipment));
+  }, [hoursScope, labSettings, equipmentList]);
+
+  useEffect(() => {
+    const equipment = equipmentList.find(e => e.id === quotaScope) ?? null;
+    setQuotaForm(quotaPoliciesOf(labSettings, equipment));
+  }, [quotaScope, labSettings, equipmentList]);
+
+  useEffect(() => { setNoShowPolicyForm(noShowPolicyOf(labSettings)); }, [labSettings]);
+  useEffect(() => { setTimeZoneForm(labSettings.timeZone ?? ''); }, [labSettings]);
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+
+  // Load the signed-in user's profile, creating it with the default role on first sign-in.
+  useEffect(() => {
+    if (!db || !userId || !appId) { setRole('viewer'); return; }
+    const profileRef = doc(db, `artifacts/${appId}/users`, userId);
+    getDoc(profileRef).then(snapshot => {
+      if (!snapshot.exists()) {
+        return setDoc(profileRef, { displayName: userDisplayName, email: userEmail, photoURL: userPhotoURL, role: DEFAULT_ROLE, createdAt: Timestamp.now() });
+      }
+    }).catch(error => console.error("Failed to create user profile:", error));
+    const unsub = onSnapshot(profileRef, (snapshot) => {
+      const profileRole = snapshot.data()?.role as Role | undefined;
+      setRole(profileRole && ROLES.includes(profileRole) ? profileRole : 'viewer');
+      setNotificationPreferences({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...snapshot.data()?.notificationPreferences });
     });
-    const unsubBookings = onSnapshot(collection(db, `artifacts/${appId}/public/data/bookings`), (snapshot) => {
-      setAllPublicBookings(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as Omit<Booking, 'id'> })));
+    return () => unsub();
+  }, [db, userId, appId, userDisplayName, userEmail, userPhotoURL]);
+
+  useEffect(() => {
+    if (!db || !appId || !isAdmin) { setUserProfiles([]); return; }
+    const unsub = onSnapshot(collection(db, `artifacts/${appId}/users`), (snapshot) => {
+      setUserProfiles(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as Omit<UserProfile, 'id'> })).sort((a, b) => a.displayName.localeCompare(b.displayName)));
     });
-    return () => { unsubEquipment(); unsubBookings(); };
-  }, [db, appId]);
+    return () => unsub();
+  }, [db, appId, isAdmin]);
+
+  // Only the selected date range is loaded; the other filters apply to it client-side.
+  useEffect(() => {
+    if (!service || !isAdmin || !showAdminPanel || !auditFilters.from || !auditFilters.to) { setAuditEntries([]); return; }
+    const from = parseLocalDateTime(auditFilters.from, '00:00', labTimeZone);
+    const to = parseLocalDateTime(auditFilters.to, '24:00', labTimeZone);
+    const unsub = service.watchAuditLog(from, to, (entries) => {
+      setAuditEntries(entries);
+      setAuditMessage('');
+    }, (error) => setAuditMessage(t('errors.loadAuditLog', error.message)));
+    return () => unsub();
+  }, [service, isAdmin, showAdminPanel, auditFilters.from, auditFilters.to, labTimeZone]);
 
   useEffect(() => {
-    if (!db || !userId || !appId) { setMyBookings([]); return; }
-    const unsub = onSnapshot(collection(db, `artifacts/${appId}/users/${userId}/bookings`), (snapshot) => {
-      setMyBookings(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as Omit<Booking, 'id'> })).sort((a, b) => a.startDate.toMillis() - b.startDate.toMillis()));
+    if (!service || !userId) { setWaitlistEntries([]); return; }
+    const unsub = service.watchWaitlist(isManager ? null : userId, setWaitlistEntries);
+    return () => unsub();
+  }, [service, userId, isManager]);
+
+  useEffect(() => {
+    if (!db || !userId || !appId || !calendarFeedBaseUrl) { setCalendarFeeds([]); return; }
+    const q = query(collection(db, `artifacts/${appId}/calendarFeeds`), where('ownerId', '==', userId));
+    const unsub = onSnapshot(q, (snapshot) => {
+      setCalendarFeeds(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as Omit<CalendarFeed, 'id'> })).sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis()));
     });
     return () => unsub();
   }, [db, userId, appId]);
 
+  useEffect(() => {
+    if (!service || !userId) { setMyBookings([]); return; }
+    const unsub = service.watchUserBookings(userId, setMyBookings);
+    return () => unsub();
+  }, [service, userId]);
+
   // --- Functions ---
-  const handleBookingFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setBookingForm(p => ({ ...p, [e.target.name]: e.target.value }));
-  const openBookingModal = (equipment: Equipment) => {
+  const handleBookingFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => { setBookingForm(p => ({ ...p, [e.target.name]: e.target.value })); setOccurrenceReport([]); setCanJoinWaitlist(false); };
+  // range prefills the form, e.g. from a selection on the calendar.
+  const openBookingModal = (equipment: Equipment, range?: { start: Date; end: Date }) => {
     setSelectedEquipment(equipment);
-    const today = new Date().toISOString().split('T')[0];
-    setBookingForm({ startDate: today, startTime: '08:00', endDate: today, endTime: '08:30' });
+    const today = toDateKey(new Date(), labTimeZone);
+    if (range) {
+      // A range ending at midnight ends at 24:00 on the previous day.
+      const endsAtMidnight = minutesOfDay(range.end, labTimeZone) === 0;
+      const endDay = endsAtMidnight ? new Date(range.end.getTime() - 1) : range.end;
+      setBookingForm({
+        startDate: toDateKey(range.start, labTimeZone),
+        startTime: minutesToTime(minutesOfDay(range.start, labTimeZone)),
+        endDate: toDateKey(endDay, labTimeZone),
+        endTime: endsAtMidnight ? '24:00' : minutesToTime(minutesOfDay(range.end, labTimeZone)),
+      });
+      setRecurrenceForm({ ...DEFAULT_RECURRENCE, until: toDateKey(range.start, labTimeZone) });
+    } else {
+      const rules = bookingRulesOf(equipment);
+      const slots = generateTimeSlots(rules.slotMinutes, dailyHoursOn(labSettings, equipment, today));
+      const endTime = slots[Math.min(Math.ceil(rules.minDurationMinutes / rules.slotMinutes) || 1, slots.length - 1)] ?? '';
+      setBookingForm({ startDate: today, startTime: slots[0] ?? '', endDate: today, endTime });
+      setRecurrenceForm({ ...DEFAULT_RECURRENCE, until: today });
+    }
     setShowBookingModal(true);
   };
-  const closeBookingModal = () => { setShowBookingModal(false); setMessage(''); };
+  const closeBookingModal = () => { setShowBookingModal(false); setBookingToEdit(null); setMessage(''); setOccurrenceReport([]); setCanJoinWaitlist(false); setOverrideQuotas(false); };
+  const handleRecurrenceFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setRecurrenceForm(p => ({ ...p, [name]: type === 'number' ? Number(value) : value }));
+    setOccurrenceReport([]);
+  };
+  const toggleRecurrenceWeekday = (weekday: number) => {
+    setRecurrenceForm(p => ({ ...p, weekdays: p.weekdays.includes(weekday) ? p.weekdays.filter(d => d !== weekday) : [...p.weekdays, weekday].sort() }));
+    setOccurrenceReport([]);
+  };
   const openCancelModal = (booking: Booking) => { setBookingToCancel(booking); setShowCancelModal(true); };
   const closeCancelModal = () => { setShowCancelModal(false); setMessage(''); };
 
+  const canModifyBooking = (booking: Booking) => isManager || (booking.userId === userId && canBook(role));
+
+  // Moves a booking to a new time and/or piece of equipment. Returns an error message, or null on success.
+  const rescheduleBooking = async (booking: Booking, start: Date, end: Date, equipment: Equipment): Promise<string | null> => {
+    if (!service || !actor) return t('errors.signInToChange');
+    try {
+      await service.rescheduleBooking(actor, labSnapshot(), booking, start, end, equipment);
+    } catch (error) {
+      return error instanceof BookingConflictError || error instanceof BookingRuleError ? error.message : t('errors.rescheduleBooking', (error as Error).message);
+    }
+    return null;
+  };
+
+  const handleCalendarSelect = (start: Date, end: Date, equipmentId = calendarScope) => {
+    const equipment = equipmentList.find(e => e.id === equipmentId);
+    if (!equipment) return;
+    if (equipmentStatusOf(equipment) !== 'available') {
+      setCalendarMessage(t('rules.notBookable', equipment.name, t(`equipmentStatus.${equipmentStatusOf(equipment)}`))); return;
+    }
+    setCalendarMessage('');
+    openBookingModal(equipment, { start, end });
+  };
+
+  const handleCalendarEventChange = async (bookingId: string, start: Date, end: Date, revert: () => void) => {
+    const booking = allPublicBookings.find(b => b.id === bookingId);
+    const equipment = equipmentList.find(e => e.id === booking?.equipmentId);
+    const error = booking && equipment ? await rescheduleBooking(booking, start, end, equipment) : t('errors.bookingGone');
+    if (error) revert();
+    setCalendarMessage(error ?? '');
+  };
+
+  const openEditBookingModal = (booking: Booking) => {
+    const equipment = equipmentList.find(e => e.id === booking.equipmentId);
+    if (!equipment) return;
+    const start = booking.startDate.toDate();
+    const end = booking.endDate.toDate();
+    openBookingModal(equipment, { start, end });
+    setBookingToEdit(booking);
+  };
+  const handleEditEquipmentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedEquipment(equipmentList.find(equipment => equipment.id === e.target.value) ?? selectedEquipment);
+  };
+
   const submitBooking = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedEquipment || !db || !userId) return;
+    if (bookingToEdit) {
+      await saveBookingEdit();
+    } else {
+      await createBookings(false);
+    }
+  };
+
+  const saveBookingEdit = async () => {
+    if (!bookingToEdit || !selectedEquipment) return;
     const { startDate, startTime, endDate, endTime } = bookingForm;
-    const startDateTime = new Date(`${startDate}T${startTime}`);
-    const endDateTime = new Date(`${endDate}T${endTime}`);
-    if (startDateTime >= endDateTime) {
-      setMessage("End time must be after start time."); return;
-    }
-    const now = new Date();
-    if (startDateTime.getTime() < now.getTime()) {
-        setMessage("Booking start time cannot be in the past.");
-        return;
-    }
-
-    const q = query(collection(db, `artifacts/${appId}/public/data/bookings`), where('equipmentId', '==', selectedEquipment.id), where('status', '==', 'booked'));
-    const snapshot = await getDocs(q);
-    const isBooked = snapshot.docs.some(d => startDateTime < d.data().endDate.toDate() && endDateTime > d.data().startDate.toDate());
-    if (isBooked) {
-      setMessage("This equipment is already booked for this time slot."); return;
-    }
-    const bookingData: Omit<Booking, 'id'> = {
-      equipmentId: selectedEquipment.id,
-      equipmentName: selectedEquipment.name,
-      userId,
-      userDisplayName,
-      startDate: Timestamp.fromDate(startDateTime),
-      endDate: Timestamp.fromDate(endDateTime),
-      status: 'booked',
-      bookedAt: Timestamp.now()
-    };
-    await addDoc(collection(db, `artifacts/${appId}/users/${userId}/bookings`), bookingData);
-    await addDoc(collection(db, `artifacts/${appId}/public/data/bookings`), bookingData);
+    const error = await rescheduleBooking(bookingToEdit, parseLocalDateTime(startDate, startTime, labTimeZone), parseLocalDateTime(endDate, endTime, labTimeZone), selectedEquipment);
+    if (error) {
+      setMessage(error); return;
+    }
     closeBookingModal();
   };
 
-  const cancelBooking = async () => {
-    if (!bookingToCancel || !db || !userId) return;
-    const q = query(collection(db, `artifacts/${appId}/public/data/bookings`), where('equipmentId', '==', bookingToCancel.equipmentId), where('userId', '==', userId), where('bookedAt', '==', bookingToCancel.bookedAt));
-    const snapshot = await getDocs(q);
-    snapshot.forEach(d => updateDoc(d.ref, { status: 'cancelled', cancelledAt: Timestamp.now() }));
-    await updateDoc(doc(db, `artifacts/${appId}/users/${userId}/bookings`, bookingToCancel.id), { status: 'cancelled', cancelledAt: Timestamp.now() });
+  // With skipConflicts, occurrences of a series that clash are left out instead of failing the whole request.
+  const createBookings = async (skipConflicts: boolean) => {
+    if (!selectedEquipment || !service || !actor) return;
+    const { startDate, startTime, endDate, endTime } = bookingForm;
+    const request = { equipment: selectedEquipment, start: parseLocalDateTime(startDate, startTime, labTimeZone), end: parseLocalDateTime(endDate, endTime, labTimeZone), recurrence: recurrenceForm, overrideQuotas, skipConflicts };
+    try {
+      await service.createBookings(actor, labSnapshot(), request);
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        setOccurrenceReport(error.occurrences.length > 1 ? error.occurrences : []);
+        setCanJoinWaitlist(error.occurrences.length === 1);
+        setMessage(error.message);
+      } else if (error instanceof BookingRuleError) {
+        setMessage(error.message);
+      } else {
+        setMessage(t('errors.createBooking', (error as Error).message));
+      }
+      return;
+    }
+    closeBookingModal();
+  };
+
+  // 'series' cancels this and every later active occurrence of a recurring booking.
+  const cancelBooking = async (scope: 'occurrence' | 'series' = 'occurrence') => {
+    if (!bookingToCancel || !service || !actor) return;
+    try {
+      await service.cancelBooking(actor, labSnapshot(), bookingToCancel, scope);
+    } catch (error) {
+      setMessage(t('errors.cancelBooking', (error as Error).message));
+      return;
+    }
     closeCancelModal();
   };
 
-  const handleEquipmentFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setEquipmentForm(p => ({ ...p, [e.target.name]: e.target.value }));
-  const openAddEquipmentModal = () => { setEquipmentForm({ name: '', description: '' }); setShowAddEquipmentModal(true); }
+  const checkInBooking = async (booking: Booking) => {
+    if (!service || !actor) return;
+    try {
+      await service.checkIn(actor, labSnapshot(), booking);
+      setCheckInMessage('');
+    } catch (error) {
+      setCheckInMessage(t('errors.checkIn', (error as Error).message));
+    }
+  };
+  const checkOutBooking = async (booking: Booking) => {
+    if (!service || !actor) return;
+    try {
+      await service.checkOut(actor, labSnapshot(), booking);
+      setCheckInMessage('');
+    } catch (error) {
+      setCheckInMessage(t('errors.checkOut', (error as Error).message));
+    }
+  };
+
+  const joinWaitlist = async () => {
+    if (!service || !actor || !selectedEquipment) return;
+    const { startDate, startTime, endDate, endTime } = bookingForm;
+    try {
+      await service.joinWaitlist(actor, waitlistEntries, selectedEquipment, parseLocalDateTime(startDate, startTime, labTimeZone), parseLocalDateTime(endDate, endTime, labTimeZone));
+    } catch (error) {
+      setMessage(error instanceof BookingRuleError ? error.message : t('errors.joinWaitlist', (error as Error).message));
+      return;
+    }
+    closeBookingModal();
+  };
+  const leaveWaitlist = async (entry: WaitlistEntry) => {
+    if (!service) return;
+    try {
+      await service.leaveWaitlist(entry);
+      setWaitlistMessage('');
+    } catch (error) {
+      setWaitlistMessage(t('errors.leaveWaitlist', (error as Error).message));
+    }
+  };
+
+  const exportBookings = (bookings: Booking[], filename: string) => {
+    downloadFile(filename, buildCalendar(t('myBookings.icsCalendarName'), bookings.map(b => toIcsBooking(b, [...equipmentList, ...archivedEquipment]))), 'text/calendar;charset=utf-8');
+  };
+
+  const handleReportFiltersChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setReportFilters(p => ({ ...p, [e.target.name]: e.target.value }));
+  const exportReportCsv = (table: ReportTable) => {
+    // The byte order mark makes Excel read non-ASCII names as UTF-8.
+    downloadFile(reportFilename(table, reportFilters, 'csv'), `\uFEFF${toCsv([table.header, ...table.rows])}`, 'text/csv;charset=utf-8');
+  };
+  const exportReportXlsx = (table: ReportTable) => {
+    try {
+      downloadXlsx(table, reportFilename(table, reportFilters, 'xlsx'));
+      setReportMessage('');
+    } catch (error) {
+      setReportMessage(t('errors.exportXlsx', (error as Error).message));
+    }
+  };
+
+  const handleAuditFiltersChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setAuditFilters(p => ({ ...p, [e.target.name]: e.target.value }));
+  const exportAuditLog = (format: 'csv' | 'xlsx') => {
+    const table = auditTable(visibleAuditEntries, labTimeZone);
+    try {
+      if (format === 'csv') {
+        downloadFile(reportFilename(table, auditFilters, 'csv'), `\uFEFF${toCsv([table.header, ...table.rows])}`, 'text/csv;charset=utf-8');
+      } else {
+        downloadXlsx(table, reportFilename(table, auditFilters, 'xlsx'));
+      }
+      setAuditMessage('');
+    } catch (error) {
+      setAuditMessage(t('errors.exportAuditLog', (error as Error).message));
+    }
+  };
+
+  const createCalendarFeed = async (scope: CalendarFeedScope) => {
+    if (!db || !userId) return;
+    const equipment = equipmentList.find(e => e.id === feedEquipmentId);
+    if (scope === 'equipment' && !equipment) {
+      setFeedMessage(t('errors.chooseFeedEquipment')); return;
+    }
+    try {
+      await setDoc(doc(db, `artifacts/${appId}/calendarFeeds`, generateFeedToken()), {
+        ownerId: userId,
+        scope,
+        ...(equipment && scope === 'equipment' ? { equipmentId: equipment.id, equipmentName: equipment.name } : {}),
+        locale,
+        createdAt: Timestamp.now(),
+      } satisfies Omit<CalendarFeed, 'id'>);
+      setFeedMessage('');
+      setFeedEquipmentId('');
+    } catch (error) {
+      setFeedMessage(t('errors.createFeed', (error as Error).message));
+    }
+  };
+  const revokeCalendarFeed = async (feed: CalendarFeed) => {
+    if (!db) return;
+    try {
+      await deleteDoc(doc(db, `artifacts/${appId}/calendarFeeds`, feed.id));
+      setFeedMessage('');
+    } catch (error) {
+      setFeedMessage(t('errors.revokeFeed', (error as Error).message));
+    }
+  };
+  const copyFeedUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(`${calendarFeedBaseUrl}/${feed.id}.ics`);
+      setFeedMessage('');
+    } catch (error) {
+      setFeedMessage(t('errors.copyFeedUrl', (error as Error).message));
+    }
+  };
+
+  const approveBooking = async (booking: Booking) => {
+    if (!service || !actor || !isManager) return;
+    try {
+      await service.approveBooking(actor, labSnapshot(), booking);
+      setReviewMessage('');
+    } catch (error) {
+      setReviewMessage(t('errors.approveBooking', (error as Error).message));
+    }
+  };
+  const openRejectModal = (booking: Booking) => { setBookingToReject(booking); setRejectionReason(''); setShowRejectModal(true); };
+  const closeRejectModal = () => { setShowRejectModal(false); setBookingToReject(null); setMessage(''); };
+  const rejectBooking = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!service || !actor || !isManager || !bookingToReject) return;
+    try {
+      await service.rejectBooking(actor, labSnapshot(), bookingToReject, rejectionReason);
+    } catch (error) {
+      setMessage(error instanceof BookingRuleError ? error.message : t('errors.rejectBooking', (error as Error).message));
+      return;
+    }
+    closeRejectModal();
+  };
+
+  const handleEquipmentFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    const fieldValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : type === 'number' ? Number(value) : value;
+    setEquipmentForm(p => ({ ...p, [name]: fieldValue }));
+  };
+  const handleEquipmentImageChange = (e: React.ChangeEvent<HTMLInputElement>) => setEquipmentImage(e.target.files?.[0] ?? null);
+  const validateEquipmentForm = () => {
+    if (!equipmentForm.name || !equipmentForm.description) return t('errors.fillAllFields');
+    if (equipmentForm.slotMinutes <= 0 || equipmentForm.minDurationMinutes < 0 || equipmentForm.maxDurationMinutes < 0 || equipmentForm.leadTimeHours < 0) return t('errors.invalidBookingRules');
+    if (equipmentForm.maxDurationMinutes > 0 && equipmentForm.maxDurationMinutes < equipmentForm.minDurationMinutes) return t('errors.maxBelowMin');
+    if (equipmentImage && !equipmentImage.type.startsWith('image/')) return t('errors.photoNotImage');
+    return null;
+  };
+  // Uploads the selected photo, if any, and returns the fields to store on the equipment.
+  const uploadEquipmentImage = async (equipmentId: string) => {
+    if (!equipmentImage || !storage) return {};
+    const imagePath = `artifacts/${appId}/equipment/${equipmentId}/${Date.now()}-${equipmentImage.name}`;
+    const uploaded = await uploadBytes(storageRef(storage, imagePath), equipmentImage, { contentType: equipmentImage.type });
+    return { imageUrl: await getDownloadURL(uploaded.ref), imagePath };
+  };
+  const openAddEquipmentModal = () => { setEquipmentForm(toEquipmentForm()); setEquipmentImage(null); setShowAddEquipmentModal(true); }
   const addEquipment = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!db || !isAdmin || !equipmentForm.name || !equipmentForm.description) {
-      setMessage("Please fill out all fields."); return;
+    const invalid = validateEquipmentForm();
+    if (!service || !actor || !isManager || invalid) {
+      setMessage(invalid ?? t('errors.fillAllFields')); return;
     }
     try {
-      await addDoc(collection(db, `artifacts/${appId}/public/data/equipment`), { ...equipmentForm, createdAt: Timestamp.now() });
+      const equipmentId = service.newEquipmentId();
+      const image = await uploadEquipmentImage(equipmentId);
+      await service.addEquipment(actor, equipmentId, { ...fromEquipmentForm(equipmentForm), ...image });
       setShowAddEquipmentModal(false);
       setMessage('');
-    } catch (error: any) {
-      setMessage(`Failed to add equipment. Error: ${error.message}`);
+    } catch (error) {
+      setMessage(t('errors.addEquipment', (error as Error).message));
     }
   };
-  const openEditEquipmentModal = (equipment: Equipment) => { setEquipmentToEdit(equipment); setEquipmentForm({ name: equipment.name, description: equipment.description }); setShowEditEquipmentModal(true); };
+  const openEditEquipmentModal = (equipment: Equipment) => { setEquipmentToEdit(equipment); setEquipmentForm(toEquipmentForm(equipment)); setEquipmentImage(null); setShowEditEquipmentModal(true); };
   const closeEditEquipmentModal = () => { setShowEditEquipmentModal(false); setEquipmentToEdit(null); setMessage(''); };
   const updateEquipment = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!db || !isAdmin || !equipmentToEdit) return;
+    if (!service || !actor || !isManager || !equipmentToEdit) return;
+    const invalid = validateEquipmentForm();
+    if (invalid) {
+      setMessage(invalid); return;
+    }
     try {
-      const equipmentRef = doc(db, `artifacts/${appId}/public/data/equipment`, equipmentToEdit.id);
-      await updateDoc(equipmentRef, { ...equipmentForm, updatedAt: Timestamp.now() });
+      const image = await uploadEquipmentImage(equipmentToEdit.id);
+      await service.updateEquipment(actor, labSnapshot(), equipmentToEdit, { ...fromEquipmentForm(equipmentForm), ...image });
       closeEditEquipmentModal();
-    } catch (error: any) {
-       setMessage(`Failed to update equipment. Error: ${error.message}`);
+    } catch (error) {
+      setMessage(t('errors.updateEquipment', (error as Error).message));
+    }
+  };
+  const upcomingBookingsFor = (equipmentId: string) => upcomingBookingsOn(allPublicBookings, equipmentId, Date.now());
+  const openArchiveEquipmentModal = (equipment: Equipment) => { setEquipmentToArchive(equipment); setArchiveForm({ action: 'cancel', targetId: '', reason: '' }); setShowArchiveEquipmentModal(true); };
+  const closeArchiveEquipmentModal = () => { setShowArchiveEquipmentModal(false); setEquipmentToArchive(null); setMessage(''); };
+  const handleArchiveFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => setArchiveForm(p => ({ ...p, [e.target.name]: e.target.value }));
+  // Archives the equipment and cancels its future bookings or moves them to another device.
+  // Bookings that clash on the target device are cancelled instead.
+  const archiveEquipment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!service || !actor || !isManager || !equipmentToArchive) return;
+    const target = archiveForm.action === 'move' ? equipmentList.find(eq => eq.id === archiveForm.targetId) : undefined;
+    if (upcomingBookingsFor(equipmentToArchive.id).length > 0 && archiveForm.action === 'move' && !target) {
+      setMessage(t('errors.chooseArchiveTarget')); return;
+    }
+    try {
+      await service.archiveEquipment(actor, labSnapshot(), equipmentToArchive, target ?? null, archiveForm.reason.trim());
+      closeArchiveEquipmentModal();
+    } catch (error) {
+      setMessage(t('errors.archiveEquipment', (error as Error).message));
+    }
+  };
+  const restoreEquipment = async (equipment: Equipment) => {
+    if (!service || !actor || !isManager) return;
+    try {
+      await service.restoreEquipment(actor, equipment);
+      setEquipmentMessage('');
+    } catch (error) {
+      setEquipmentMessage(t('errors.restoreEquipment', (error as Error).message));
+    }
+  };
+
+  // Saves settings on the equipment with ID scope, or lab-wide when scope is ''.
+  const updateSettings = async (scope: string, changes: Record<string, unknown>) => {
+    if (!service || !actor) return;
+    await service.updateSettings(actor, labSnapshot(), scope, changes);
+  };
+  const updateHoursForm = (weekday: number, hours: DailyHours | null) => setHoursForm(p => p.map((h, i) => (i === weekday ? hours : h)));
+  const saveOpeningHours = async () => {
+    if (!service || !isManager) return;
+    if (hoursForm.some(h => h && timeToMinutes(h.open) >= timeToMinutes(h.close))) {
+      setSettingsMessage(t('errors.closeBeforeOpen')); return;
+    }
+    try {
+      await updateSettings(hoursScope, { openingHours: hoursForm });
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.saveOpeningHours', (error as Error).message));
+    }
+  };
+  const saveTimeZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!service || !isManager) return;
+    const timeZone = timeZoneForm.trim();
+    if (!isValidTimeZone(timeZone)) {
+      setSettingsMessage(t('errors.invalidTimeZone', timeZone)); return;
+    }
+    try {
+      await updateSettings('', { timeZone });
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.saveTimeZone', (error as Error).message));
     }
   };
-  const openDeleteEquipmentModal = (equipment: Equipment) => { setEquipmentToDelete(equipment); setShowDeleteEquipmentModal(true); };
-  const closeDeleteEquipmentModal = () => { setShowDeleteEquipmentModal(false); setEquipmentToDelete(null); setMessage(''); };
-  const deleteEquipment = async () => {
-    if (!db || !isAdmin || !equipmentToDelete) return;
+  const resetEquipmentHours = async () => {
+    if (!service || !isManager || !hoursScope) return;
     try {
-      await deleteDoc(doc(db, `artifacts/${appId}/public/data/equipment`, equipmentToDelete.id));
-      closeDeleteEquipmentModal();
-    } catch (error: any) {
-       setMessage(`Failed to delete equipment. Error: ${error.message}`);
+      await updateSettings(hoursScope, { openingHours: null });
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.resetOpeningHours', (error as Error).message));
+    }
+  };
+  const addHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!service || !isManager) return;
+    if (!holidayForm.date || !holidayForm.name.trim()) {
+      setSettingsMessage(t('errors.holidayIncomplete')); return;
+    }
+    const holidays = [...labSettings.holidays.filter(h => h.date !== holidayForm.date), { date: holidayForm.date, name: holidayForm.name.trim() }].sort((a, b) => a.date.localeCompare(b.date));
+    try {
+      await updateSettings('', { holidays });
+      setHolidayForm({ date: '', name: '' });
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.addHoliday', (error as Error).message));
+    }
+  };
+  const removeHoliday = async (holiday: Holiday) => {
+    if (!service || !isManager) return;
+    try {
+      await updateSettings('', { holidays: labSettings.holidays.filter(h => h.date !== holiday.date) });
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.removeHoliday', (error as Error).message));
+    }
+  };
+  const addBlackout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!service || !actor || !isManager) return;
+    if (!blackoutForm.equipmentId || !blackoutForm.start || !blackoutForm.end) {
+      setSettingsMessage(t('errors.blackoutIncomplete')); return;
+    }
+    // datetime-local values are 'YYYY-MM-DDTHH:mm' in the lab's time zone.
+    const start = parseLocalDateTime(blackoutForm.start.slice(0, 10), blackoutForm.start.slice(11, 16), labTimeZone);
+    const end = parseLocalDateTime(blackoutForm.end.slice(0, 10), blackoutForm.end.slice(11, 16), labTimeZone);
+    if (start >= end) {
+      setSettingsMessage(t('errors.blackoutEndBeforeStart')); return;
+    }
+    try {
+      await service.addBlackout(actor, labSnapshot(), { equipmentId: blackoutForm.equipmentId, start: Timestamp.fromDate(start), end: Timestamp.fromDate(end), reason: blackoutForm.reason.trim() });
+      setBlackoutForm({ equipmentId: '', start: '', end: '', reason: '' });
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.addBlackout', (error as Error).message));
+    }
+  };
+  const removeBlackout = async (blackout: Blackout) => {
+    if (!service || !actor || !isManager) return;
+    try {
+      await service.removeBlackout(actor, labSnapshot(), blackout);
+      setSettingsMessage('');
+    } catch (error) {
+      setSettingsMessage(t('errors.removeBlackout', (error as Error).message));
+    }
+  };
+
+  const updateQuotaForm = (quotaRole: Role, key: keyof QuotaPolicy, value: number) =>
+    setQuotaForm(p => ({ ...p, [quotaRole]: { ...NO_QUOTA, ...p[quotaRole], [key]: value } }));
+  const saveQuotas = async () => {
+    if (!service || !isManager) return;
+    if (Object.values(quotaForm).some(policy => Object.values(policy).some(value => !Number.isInteger(value) || value < 0))) {
+      setQuotaMessage(t('errors.invalidQuotas')); return;
+    }
+    try {
+      await updateSettings(quotaScope, { quotas: quotaForm });
+      setQuotaMessage('');
+    } catch (error) {
+      setQuotaMessage(t('errors.saveQuotas', (error as Error).message));
+    }
+  };
+  const resetEquipmentQuotas = async () => {
+    if (!service || !isManager || !quotaScope) return;
+    try {
+      await updateSettings(quotaScope, { quotas: null });
+      setQuotaMessage('');
+    } catch (error) {
+      setQuotaMessage(t('errors.resetQuotas', (error as Error).message));
+    }
+  };
+
+  const handleNoShowPolicyChange = (e: React.ChangeEvent<HTMLInputElement>) => setNoShowPolicyForm(p => ({ ...p, [e.target.name]: Number(e.target.value) }));
+  const saveNoShowPolicy = async () => {
+    if (!service || !isManager) return;
+    const { graceMinutes, limit, windowDays } = noShowPolicyForm;
+    if (![graceMinutes, limit, windowDays].every(Number.isInteger) || graceMinutes < 0 || limit < 0 || windowDays < 1) {
+      setNoShowMessage(t('errors.invalidNoShowPolicy')); return;
+    }
+    try {
+      await updateSettings('', { noShowPolicy: noShowPolicyForm });
+      setNoShowMessage('');
+    } catch (error) {
+      setNoShowMessage(t('errors.saveNoShowPolicy', (error as Error).message));
+    }
+  };
+  const setNoShowExcused = async (booking: Booking, excused: boolean) => {
+    if (!service || !actor || !isManager) return;
+    try {
+      await service.setNoShowExcused(actor, labSnapshot(), booking, excused);
+      setNoShowMessage('');
+    } catch (error) {
+      setNoShowMessage(t('errors.updateNoShow', (error as Error).message));
+    }
+  };
+
+  const updateNotificationPreferences = async (changes: Partial<NotificationPreferences>) => {
+    if (!db || !userId) return;
+    const preferences = { ...notificationPreferences, ...changes };
+    setNotificationPreferences(preferences);
+    try {
+      await updateDoc(doc(db, `artifacts/${appId}/users`, userId), { notificationPreferences: preferences, updatedAt: Timestamp.now() });
+      setPreferencesMessage('');
+    } catch (error) {
+      setPreferencesMessage(t('errors.saveNotificationSettings', (error as Error).message));
+    }
+  };
+
+  const updateUserRole = async (profile: UserProfile, newRole: Role) => {
+    if (!db || !isAdmin || profile.role === newRole) return;
+    if (profile.id === userId && newRole !== 'admin') {
+      setRoleMessage(t('errors.revokeOwnAdmin')); return;
+    }
+    try {
+      await updateDoc(doc(db, `artifacts/${appId}/users`, profile.id), { role: newRole, updatedAt: Timestamp.now() });
+      setRoleMessage('');
+    } catch (error) {
+      setRoleMessage(t('errors.updateRole', (error as Error).message));
     }
   };
 
   const signInWithGoogle = async () => { if (!auth) return; await signInWithPopup(auth, new GoogleAuthProvider()); };
   const handleSignOut = async () => { if (!auth) return; await signOut(auth); };
-  
+  const changeLocale = (newLocale: Locale) => { setLocale(newLocale); setLocaleState(newLocale); };
+
   const formatDateTime = (ts: Timestamp | undefined) => {
-    if (!ts) return 'N/A';
-    const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true };
-    return ts.toDate().toLocaleString('en-US', options);
+    if (!ts) return t('common.notAvailable');
+    return formatInTimeZone(ts.toDate(), labTimeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
   };
 
-  const generateTimeSlots = () => {
+  // Slot boundaries inside one day's opening window, aligned to multiples of stepMinutes past midnight.
+  const generateTimeSlots = (stepMinutes: number, hours: DailyHours | null) => {
     const slots: string[] = [];
-    for (let hour = 8; hour <= 17; hour++) {
-      slots.push(`${String(hour).padStart(2, '0')}:00`);
-      if (hour < 17) {
-        slots.push(`${String(hour).padStart(2, '0')}:30`);
-      }
+    if (!hours) return slots;
+    for (let minutes = Math.ceil(timeToMinutes(hours.open) / stepMinutes) * stepMinutes; minutes <= timeToMinutes(hours.close); minutes += stepMinutes) {
+      slots.push(minutesToTime(minutes));
     }
     return slots;
   };
-  const timeSlots = generateTimeSlots();
+  const slotMinutes = selectedEquipment ? bookingRulesOf(selectedEquipment).slotMinutes : DEFAULT_BOOKING_RULES.slotMinutes;
+  const startDayHours = bookingForm.startDate ? dailyHoursOn(labSettings, selectedEquipment, bookingForm.startDate) : null;
+  const endDayHours = bookingForm.endDate ? dailyHoursOn(labSettings, selectedEquipment, bookingForm.endDate) : null;
+  const startTimeSlots = generateTimeSlots(slotMinutes, startDayHours).slice(0, -1);
+  const endTimeSlots = generateTimeSlots(slotMinutes, endDayHours).slice(1);
+
+  const calendarEquipment = equipmentList.find(e => e.id === calendarScope) ?? null;
+  // Without a chosen device the calendar shows one day with a column per device.
+  const calendarColumns = calendarEquipment ? [] : equipmentList.filter(e => equipmentStatusOf(e) !== 'retired');
+  const calendarDay = calendarDate || toDateKey(new Date(), labTimeZone);
+  const calendarRange = openingRange(calendarEquipment ? [openingHoursOf(labSettings, calendarEquipment)] : [labSettings.openingHours, ...equipmentList.map(e => openingHoursOf(labSettings, e))]);
+  const calendarEventsFor = (equipment: Equipment): CalendarEvent[] => [
+    ...allPublicBookings
+      .filter(b => ACTIVE_STATUSES.includes(b.status) && b.equipmentId === equipment.id)
+      .map(b => ({
+        id: b.id,
+        title: `${b.userDisplayName}${b.status === 'pending' ? ` – ${t('bookingStatus.pending')}` : ''}`,
+        start: b.startDate.toDate(),
+        end: b.endDate.toDate(),
+        color: b.status === 'pending' ? '#d97706' : b.userId === userId ? '#4f46e5' : '#6b7280',
+        editable: canModifyBooking(b) && b.startDate.toMillis() > Date.now(),
+      })),
+    ...labSettings.holidays.map(h => ({ title: h.name, start: new Date(`${h.date}T00:00Z`), end: new Date(`${addDaysToKey(h.date, 1)}T00:00Z`), allDay: true, display: 'background' as const, color: '#9ca3af' })),
+    ...blackouts
+      .filter(b => b.equipmentId === equipment.id)
+      .map(b => ({ title: b.reason || t('calendar.unavailable'), start: b.start.toDate(), end: b.end.toDate(), display: 'background' as const, color: '#f87171' })),
+  ];
+  const categories = [...new Set(equipmentList.map(e => e.category).filter((c): c is string => !!c))].sort();
+  const bookableEquipment = equipmentList.filter(e => equipmentStatusOf(e) !== 'retired' && (!categoryFilter || e.category === categoryFilter));
+  const visibleAuditEntries = filterAuditEntries(auditEntries, auditFilters);
+  const reports = isManager && showAdminPanel && reportFilters.from && reportFilters.to ? buildReports(allPublicBookings, [...equipmentList, ...archivedEquipment], labSettings, reportFilters) : null;
+  const heatmapMax = reports ? Math.max(1, ...reports.heatmapTable.rows.flatMap(row => row.slice(1) as number[])) : 1;
+  const noShowPolicy = noShowPolicyOf(labSettings);
+  const archiveAffected = equipmentToArchive ? upcomingBookingsFor(equipmentToArchive.id) : [];
+  const archiveTarget = archiveForm.action === 'move' ? equipmentList.find(e => e.id === archiveForm.targetId) : undefined;
+  const archiveClashes = archiveTarget
+    ? archiveAffected.filter(b => validateMove(archiveTarget, b, labSettings, blackouts, new Date())
+      || upcomingBookingsFor(archiveTarget.id).some(o => rangesOverlap(b.startDate.toDate(), b.endDate.toDate(), o.startDate.toDate(), o.endDate.toDate())))
+    : [];
+  const noShowsByUser = [...allPublicBookings.filter(b => b.status === 'noShow').reduce((users, b) => users.set(b.userId, [...(users.get(b.userId) ?? []), b]), new Map<string, Booking[]>()).entries()]
+    .map(([noShowUserId, bookings]) => ({ userId: noShowUserId, userDisplayName: bookings[0].userDisplayName, bookings: bookings.sort((a, b) => b.startDate.toMillis() - a.startDate.toMillis()), counted: countedNoShows(bookings, noShowUserId, noShowPolicy, Date.now()).length }))
+    .sort((a, b) => b.counted - a.counted);
+  const noShowHistory = noShowsByUser.find(u => u.userId === noShowHistoryUserId);
+  const pendingBookings = allPublicBookings.filter(b => b.status === 'pending').sort((a, b) => a.startDate.toMillis() - b.startDate.toMillis());
+  // Entries whose slot has already started can no longer be promoted.
+  const waitingEntries = waitlistEntries.filter(entry => entry.status === 'waiting' && entry.startDate.toMillis() > Date.now());
+  const myWaitlist = waitingEntries.filter(entry => entry.userId === userId);
+
+  const renderEquipmentFormFields = (idPrefix: string) => (
+    <>
+      <div className="mb-4"><label htmlFor={`${idPrefix}Name`} className="block font-semibold mb-2">{t('equipmentForm.name')}</label><input type="text" id={`${idPrefix}Name`} name="name" value={equipmentForm.name} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded" required/></div>
+      <div className="mb-4"><label htmlFor={`${idPrefix}Description`} className="block font-semibold mb-2">{t('equipmentForm.description')}</label><textarea id={`${idPrefix}Description`} name="description" value={equipmentForm.description} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded" rows={3} required></textarea></div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+        <div className="mb-4"><label htmlFor={`${idPrefix}Category`} className="block font-semibold mb-2">{t('equipmentForm.category')}</label><input type="text" id={`${idPrefix}Category`} name="category" list="equipmentCategories" value={equipmentForm.category} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+        <div className="mb-4"><label htmlFor={`${idPrefix}Location`} className="block font-semibold mb-2">{t('equipmentForm.location')}</label><input type="text" id={`${idPrefix}Location`} name="location" value={equipmentForm.location} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+        <div className="mb-4"><label htmlFor={`${idPrefix}ResponsiblePerson`} className="block font-semibold mb-2">{t('equipmentForm.responsiblePerson')}</label><input type="text" id={`${idPrefix}ResponsiblePerson`} name="responsiblePerson" value={equipmentForm.responsiblePerson} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+        <div className="mb-4"><label htmlFor={`${idPrefix}Status`} className="block font-semibold mb-2">{t('common.status')}</label><select id={`${idPrefix}Status`} name="status" value={equipmentForm.status} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded">{EQUIPMENT_STATUSES.map(status => <option key={status} value={status}>{t(`equipmentStatus.${status}`)}</option>)}</select></div>
+      </div>
+      <div className="mb-4"><label htmlFor={`${idPrefix}Image`} className="block font-semibold mb-2">{t('equipmentForm.photo')}</label><input type="file" id={`${idPrefix}Image`} accept="image/*" onChange={handleEquipmentImageChange} className="w-full text-sm"/></div>
+      <fieldset className="mb-4 border rounded p-3">
+        <legend className="px-1 font-semibold">{t('equipmentForm.bookingRules')}</legend>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+          <div><label htmlFor={`${idPrefix}MinDuration`} className="block mb-1">{t('equipmentForm.minDuration')}</label><input type="number" id={`${idPrefix}MinDuration`} name="minDurationMinutes" min={0} value={equipmentForm.minDurationMinutes} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+          <div><label htmlFor={`${idPrefix}MaxDuration`} className="block mb-1">{t('equipmentForm.maxDuration')}</label><input type="number" id={`${idPrefix}MaxDuration`} name="maxDurationMinutes" min={0} value={equipmentForm.maxDurationMinutes} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+          <div><label htmlFor={`${idPrefix}SlotMinutes`} className="block mb-1">{t('equipmentForm.slotLength')}</label><input type="number" id={`${idPrefix}SlotMinutes`} name="slotMinutes" min={5} step={5} value={equipmentForm.slotMinutes} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+          <div><label htmlFor={`${idPrefix}LeadTime`} className="block mb-1">{t('equipmentForm.leadTime')}</label><input type="number" id={`${idPrefix}LeadTime`} name="leadTimeHours" min={0} value={equipmentForm.leadTimeHours} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded"/></div>
+        </div>
+      </fieldset>
+      <div className="mb-4"><label htmlFor={`${idPrefix}RequiresApproval`} className="flex items-center gap-2 font-semibold"><input type="checkbox" id={`${idPrefix}RequiresApproval`} name="requiresApproval" checked={equipmentForm.requiresApproval} onChange={handleEquipmentFormChange}/>{t('equipmentForm.requiresApproval')}</label></div>
+      <datalist id="equipmentCategories">{categories.map(category => <option key={category} value={category}/>)}</datalist>
+    </>
+  );
 
   if (!isAuthReady) {
-    return <div className="min-h-screen flex items-center justify-center"><p>Loading Platform...</p></div>;
+    return <div className="min-h-screen flex items-center justify-center"><p>{t('header.loading')}</p></div>;
   }
 
   return (
     <div className="w-full max-w-7xl mx-auto bg-white rounded-2xl shadow-xl p-8 sm:p-10">
       <header className="flex justify-between items-center mb-12 pb-6 border-b border-gray-200">
-        <h1 className="text-xl sm:text-2xl font-bold text-gray-800 tracking-tight">SEG CMF Lab Equipment Management Platform</h1>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-800 tracking-tight">{t('header.title')}</h1>
+        <div className="flex items-center gap-4">
+        <select value={locale} onChange={(e) => changeLocale(e.target.value as Locale)} aria-label={t('header.language')} className="px-2 py-1 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            {LOCALES.map(option => <option key={option} value={option}>{LOCALE_NAMES[option]}</option>)}
+        </select>
         <div ref={userMenuRef} className="relative">
             {userId ? (
                 <div>
                     <button onClick={() => setShowUserMenu(prev => !prev)} className="w-10 h-10 rounded-full overflow-hidden border-2 border-transparent hover:border-indigo-500 transition focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
-                        <img src={userPhotoURL || 'https://placehold.co/40x40/E2E8F0/4A5568?text=User'} alt="User Profile" className="w-full h-full object-cover" />
+                        <img src={userPhotoURL || 'https://placehold.co/40x40/E2E8F0/4A5568?text=User'} alt={t('header.profilePhoto')} className="w-full h-full object-cover" />
                     </button>
                     {showUserMenu && (
                         <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg py-1 z-20 ring-1 ring-black ring-opacity-5">
                             <div className="px-4 py-3">
-                                <p className="text-sm text-gray-500">Signed in as</p>
+                                <p className="text-sm text-gray-500">{t('header.signedInAs')}</p>
                                 <p className="text-sm font-medium text-gray-900 truncate">{userDisplayName}</p>
+                                <p className="text-xs text-gray-500 mt-1">{t(`role.${role}`)}</p>
                             </div>
                             <div className="border-t border-gray-100"></div>
                             <button onClick={handleSignOut} className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100">
-                                Sign Out
+                                {t('header.signOut')}
                             </button>
                         </div>
                     )}
                 </div>
             ) : (
-                <button onClick={signInWithGoogle} className="text-sm font-semibold bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700">Sign In</button>
+                <button onClick={signInWithGoogle} className="text-sm font-semibold bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700">{t('header.signIn')}</button>
             )}
         </div>
+        </div>
       </header>
       <main>
-        {isAdmin && (
+        <section className="mb-20">
+          <div className="flex justify-between items-center mb-6 gap-4">
+            <h2 className="text-3xl font-bold text-gray-900">{t('calendar.title')}</h2>
+            <select value={calendarScope} onChange={(e) => setCalendarScope(e.target.value)} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              <option value="">{t('calendar.allEquipment')}</option>
+              {equipmentList.filter(e => equipmentStatusOf(e) !== 'retired').map(equipment => <option key={equipment.id} value={equipment.id}>{equipment.name}</option>)}
+            </select>
+          </div>
+          {canBook(role) && (<p className="text-sm text-gray-500 mb-4">{t('calendar.hint')} {t('calendar.timeZoneNote', labTimeZone)}</p>)}
+          {calendarMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{calendarMessage}</div>)}
+          <div className="p-4 bg-gray-50 rounded-lg shadow-inner">
+            {calendarEquipment ? (
+              <CalendarComponent
+                events={calendarEventsFor(calendarEquipment)}
+                timeZone={labTimeZone}
+                locale={locale}
+                slotMinTime={calendarRange.min}
+                slotMaxTime={calendarRange.max}
+                businessHours={toBusinessHours(openingHoursOf(labSettings, calendarEquipment))}
+                onSelect={canBook(role) ? handleCalendarSelect : undefined}
+                onEventClick={(bookingId) => setBookingDetails(allPublicBookings.find(b => b.id === bookingId) ?? null)}
+                onEventChange={handleCalendarEventChange}
+              />
+            ) : (
+              <>
+                <div className="flex items-center gap-2 mb-4">
+                  <button onClick={() => setCalendarDate(addDaysToKey(calendarDay, -1))} className="px-3 py-1 bg-white border border-gray-300 rounded-md text-sm hover:bg-gray-100">{t('calendar.previousDay')}</button>
+                  <button onClick={() => setCalendarDate('')} className="px-3 py-1 bg-white border border-gray-300 rounded-md text-sm hover:bg-gray-100">{t('calendar.today')}</button>
+                  <button onClick={() => setCalendarDate(addDaysToKey(calendarDay, 1))} className="px-3 py-1 bg-white border border-gray-300 rounded-md text-sm hover:bg-gray-100">{t('calendar.nextDay')}</button>
+                  <span className="ml-2 text-lg font-semibold text-gray-800">{formatInTimeZone(new Date(`${calendarDay}T12:00Z`), 'UTC', { dateStyle: 'full' })}</span>
+                </div>
+                <div className="flex gap-4 overflow-x-auto">
+                  {calendarColumns.map(equipment => (
+                    <div key={equipment.id} className="flex-1 min-w-[220px]">
+                      <CalendarComponent
+                        date={calendarDay}
+                        title={equipment.name}
+                        events={calendarEventsFor(equipment)}
+                        timeZone={labTimeZone}
+                        locale={locale}
+                        slotMinTime={calendarRange.min}
+                        slotMaxTime={calendarRange.max}
+                        businessHours={toBusinessHours(openingHoursOf(labSettings, equipment))}
+                        onSelect={canBook(role) ? (start, end) => handleCalendarSelect(start, end, equipment.id) : undefined}
+                        onEventClick={(bookingId) => setBookingDetails(allPublicBookings.find(b => b.id === bookingId) ?? null)}
+                        onEventChange={handleCalendarEventChange}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </section>
+
+        {isManager && (
             <section className="mb-20">
-              <h2 className="text-3xl font-bold text-gray-900 mb-6">Equipment Dashboard</h2>
-              <div className="p-4 bg-gray-50 rounded-lg shadow-inner">
-                <CalendarComponent
-                  events={allPublicBookings
-                    .filter(b => b.status === 'booked')
-                    .map(b => ({
-                      title: `${b.equipmentName} (${b.userDisplayName})`,
-                      start: b.startDate.toDate(),
-                      end: b.endDate.toDate(),
-                    }))
-                  }
-                />
-              </div>
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('approvals.title')}</h2>
+                {reviewMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{reviewMessage}</div>)}
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.equipment')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('approvals.requestedBy')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.from')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.to')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {pendingBookings.length === 0 && (
+                                <tr><td colSpan={5} className="py-4 px-6 text-sm text-gray-500">{t('approvals.empty')}</td></tr>
+                            )}
+                            {pendingBookings.map(booking => (
+                                <tr key={booking.id} className="border-b last:border-b-0 hover:bg-gray-50">
+                                    <td className="py-4 px-6 font-medium">{booking.equipmentName}</td>
+                                    <td className="py-4 px-6 text-gray-600">{booking.userDisplayName}</td>
+                                    <td className="py-4 px-6">{formatDateTime(booking.startDate)}</td>
+                                    <td className="py-4 px-6">{formatDateTime(booking.endDate)}</td>
+                                    <td className="py-4 px-6 flex items-center gap-4">
+                                        <button onClick={() => approveBooking(booking)} className="text-sm font-medium text-green-600 hover:text-green-800">{t('approvals.approve')}</button>
+                                        <button onClick={() => openRejectModal(booking)} className="text-sm font-medium text-red-600 hover:text-red-800">{t('approvals.reject')}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
             </section>
         )}
-        
-        {isAdmin && showAdminPanel && (
+
+        {isManager && waitingEntries.length > 0 && (
+            <section className="mb-20">
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('waitlist.title')}</h2>
+                {waitlistMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{waitlistMessage}</div>)}
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.equipment')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('approvals.requestedBy')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.from')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.to')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('waitlist.joined')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {waitingEntries.map(entry => (
+                                <tr key={entry.id} className="border-b last:border-b-0 hover:bg-gray-50">
+                                    <td className="py-4 px-6 font-medium">{entry.equipmentName}</td>
+                                    <td className="py-4 px-6 text-gray-600">{entry.userDisplayName}</td>
+                                    <td className="py-4 px-6">{formatDateTime(entry.startDate)}</td>
+                                    <td className="py-4 px-6">{formatDateTime(entry.endDate)}</td>
+                                    <td className="py-4 px-6 text-gray-600">{formatDateTime(entry.createdAt)}</td>
+                                    <td className="py-4 px-6"><button onClick={() => leaveWaitlist(entry)} className="text-sm font-medium text-red-600 hover:text-red-800">{t('common.remove')}</button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        )}
+
+        {isManager && showAdminPanel && (
             <section className="mb-20">
                 <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-3xl font-bold text-gray-900">Manage Equipment</h2>
-                    <button onClick={openAddEquipmentModal} className="text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">Add Equipment</button>
+                    <h2 className="text-3xl font-bold text-gray-900">{t('manageEquipment.title')}</h2>
+                    <button onClick={openAddEquipmentModal} className="text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">{t('manageEquipment.add')}</button>
                 </div>
+                {equipmentMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{equipmentMessage}</div>)}
                 <div className="overflow-x-auto bg-white rounded-lg shadow">
                     <table className="min-w-full">
                         <thead className="bg-gray-100">
                             <tr>
-                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
-                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
-                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.name')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('equipmentForm.category')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('manageEquipment.location')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('manageEquipment.responsible')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.status')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('equipmentForm.bookingRules')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('manageEquipment.approval')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
                             </tr>
                         </thead>
                         <tbody>
                             {equipmentList.map(equipment => (
                                 <tr key={equipment.id} className="border-b last:border-b-0 hover:bg-gray-50">
-                                    <td className="py-4 px-6 font-medium">{equipment.name}</td>
-                                    <td className="py-4 px-6 text-gray-600">{equipment.description}</td>
+                                    <td className="py-4 px-6 font-medium">
+                                        <div className="flex items-center gap-3">
+                                            {equipment.imageUrl && (<img src={equipment.imageUrl} alt={equipment.name} className="w-10 h-10 rounded object-cover"/>)}
+                                            <div>
+                                                <p>{equipment.name}</p>
+                                                <p className="text-xs font-normal text-gray-500">{equipment.description}</p>
+                                            </div>
+                                        </div>
+                                    </td>
+                                    <td className="py-4 px-6 text-gray-600">{equipment.category || '—'}</td>
+                                    <td className="py-4 px-6 text-gray-600">{equipment.location || '—'}</td>
+                                    <td className="py-4 px-6 text-gray-600">{equipment.responsiblePerson || '—'}</td>
+                                    <td className="py-4 px-6"><span className={`inline-flex px-2 py-1 rounded-full text-xs font-semibold ${EQUIPMENT_STATUS_BADGE_CLASSES[equipmentStatusOf(equipment)]}`}>{t(`equipmentStatus.${equipmentStatusOf(equipment)}`)}</span></td>
+                                    <td className="py-4 px-6 text-xs text-gray-600 whitespace-nowrap">{(() => {
+                                        const rules = bookingRulesOf(equipment);
+                                        return <>{formatMinutes(rules.minDurationMinutes)} – {rules.maxDurationMinutes > 0 ? formatMinutes(rules.maxDurationMinutes) : t('manageEquipment.noMax')}<br/>{t('manageEquipment.slotsAndNotice', formatMinutes(rules.slotMinutes), rules.leadTimeHours)}</>;
+                                    })()}</td>
+                                    <td className="py-4 px-6 text-gray-600">{equipment.requiresApproval ? t('manageEquipment.required') : '—'}</td>
                                     <td className="py-4 px-6 flex items-center gap-4">
-                                        <button onClick={() => openEditEquipmentModal(equipment)} className="text-sm font-medium text-blue-600 hover:text-blue-800">Edit</button>
-                                        <button onClick={() => openDeleteEquipmentModal(equipment)} className="text-sm font-medium text-red-600 hover:text-red-800">Delete</button>
+                                        <button onClick={() => openEditEquipmentModal(equipment)} className="text-sm font-medium text-blue-600 hover:text-blue-800">{t('common.edit')}</button>
+                                        <button onClick={() => openArchiveEquipmentModal(equipment)} className="text-sm font-medium text-red-600 hover:text-red-800">{t('manageEquipment.archive')}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {archivedEquipment.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-lg font-semibold mb-2">{t('manageEquipment.archived')}</h3>
+                        <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+                            {archivedEquipment.map(equipment => (
+                                <li key={equipment.id} className="py-3 px-6 flex justify-between items-center text-sm">
+                                    <span><span className="font-medium">{equipment.name}</span><span className="text-gray-500"> · {t('manageEquipment.archivedAt', formatDateTime(equipment.archivedAt))}</span></span>
+                                    <button onClick={() => restoreEquipment(equipment)} className="text-sm font-medium text-blue-600 hover:text-blue-800">{t('manageEquipment.restore')}</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </section>
+        )}
+
+        {isManager && showAdminPanel && (
+            <section className="mb-20">
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('hours.title')}</h2>
+                {settingsMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{settingsMessage}</div>)}
+                <form onSubmit={saveTimeZone} className="bg-white rounded-lg shadow p-6 mb-8 flex flex-wrap items-end gap-4">
+                    <div className="flex-grow">
+                        <label htmlFor="labTimeZone" className="block text-lg font-semibold mb-1">{t('hours.timeZone')}</label>
+                        <p className="text-xs text-gray-500 mb-2">{t('hours.timeZoneHint', browserTimeZone())}</p>
+                        <input type="text" id="labTimeZone" list="timeZones" value={timeZoneForm} placeholder={browserTimeZone()} onChange={(e) => setTimeZoneForm(e.target.value)} className="w-full px-3 py-2 bg-gray-100 rounded-md text-sm" required/>
+                        <datalist id="timeZones">{TIME_ZONES.map(zone => <option key={zone} value={zone}/>)}</datalist>
+                    </div>
+                    <button type="submit" className="text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">{t('hours.saveTimeZone')}</button>
+                </form>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    <div className="bg-white rounded-lg shadow p-6">
+                        <div className="flex justify-between items-center mb-4 gap-4">
+                            <h3 className="text-lg font-semibold">{t('hours.openingHours')}</h3>
+                            <select value={hoursScope} onChange={(e) => setHoursScope(e.target.value)} className="px-3 py-1 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                                <option value="">{t('hours.wholeLab')}</option>
+                                {equipmentList.map(equipment => <option key={equipment.id} value={equipment.id}>{equipment.name}{equipment.openingHours ? t('common.customSuffix') : ''}</option>)}
+                            </select>
+                        </div>
+                        <table className="min-w-full text-sm">
+                            <tbody>
+                                {hoursForm.map((hours, weekday) => (
+                                    <tr key={weekday} className="border-b last:border-b-0">
+                                        <td className="py-2 pr-4 font-medium">{weekdayName(weekday)}</td>
+                                        <td className="py-2 pr-4"><label className="flex items-center gap-2"><input type="checkbox" checked={!!hours} onChange={(e) => updateHoursForm(weekday, e.target.checked ? { open: '08:00', close: '17:00' } : null)}/>{t('hours.open')}</label></td>
+                                        <td className="py-2">
+                                            {hours ? (
+                                                <div className="flex items-center gap-2">
+                                                    <select value={hours.open} onChange={(e) => updateHoursForm(weekday, { ...hours, open: e.target.value })} className="px-2 py-1 bg-gray-100 rounded-md">{HOUR_OPTIONS.slice(0, -1).map(time => <option key={time} value={time}>{time}</option>)}</select>
+                                                    <span>–</span>
+                                                    <select value={hours.close} onChange={(e) => updateHoursForm(weekday, { ...hours, close: e.target.value })} className="px-2 py-1 bg-gray-100 rounded-md">{HOUR_OPTIONS.slice(1).map(time => <option key={time} value={time}>{time}</option>)}</select>
+                                                </div>
+                                            ) : <span className="text-gray-400">{t('hours.closed')}</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="flex justify-end gap-3 mt-4">
+                            {hoursScope && equipmentList.find(e => e.id === hoursScope)?.openingHours && (<button type="button" onClick={resetEquipmentHours} className="text-sm font-semibold bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300">{t('hours.useLabHours')}</button>)}
+                            <button type="button" onClick={saveOpeningHours} className="text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">{t('hours.saveHours')}</button>
+                        </div>
+                    </div>
+                    <div className="space-y-8">
+                        <div className="bg-white rounded-lg shadow p-6">
+                            <h3 className="text-lg font-semibold mb-4">{t('hours.holidays')}</h3>
+                            <ul className="divide-y divide-gray-100 text-sm mb-4">
+                                {labSettings.holidays.length === 0 && <li className="py-2 text-gray-500">{t('hours.noHolidays')}</li>}
+                                {labSettings.holidays.map(holiday => (
+                                    <li key={holiday.date} className="py-2 flex justify-between items-center">
+                                        <span><span className="font-medium">{holiday.date}</span> · {holiday.name}</span>
+                                        <button onClick={() => removeHoliday(holiday)} className="text-sm font-medium text-red-600 hover:text-red-800">{t('common.remove')}</button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <form onSubmit={addHoliday} className="flex flex-wrap gap-2">
+                                <input type="date" value={holidayForm.date} onChange={(e) => setHolidayForm(p => ({ ...p, date: e.target.value }))} className="px-3 py-2 bg-gray-100 rounded-md text-sm" required/>
+                                <input type="text" placeholder={t('common.name')} value={holidayForm.name} onChange={(e) => setHolidayForm(p => ({ ...p, name: e.target.value }))} className="flex-grow px-3 py-2 bg-gray-100 rounded-md text-sm" required/>
+                                <button type="submit" className="text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">{t('common.add')}</button>
+                            </form>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-6">
+                            <h3 className="text-lg font-semibold mb-4">{t('hours.blackouts')}</h3>
+                            <ul className="divide-y divide-gray-100 text-sm mb-4">
+                                {blackouts.length === 0 && <li className="py-2 text-gray-500">{t('hours.noBlackouts')}</li>}
+                                {blackouts.map(blackout => (
+                                    <li key={blackout.id} className="py-2 flex justify-between items-center gap-4">
+                                        <span><span className="font-medium">{equipmentList.find(e => e.id === blackout.equipmentId)?.name ?? t('hours.unknownEquipment')}</span> · {formatDateTime(blackout.start)} – {formatDateTime(blackout.end)}{blackout.reason && <> · {blackout.reason}</>}</span>
+                                        <button onClick={() => removeBlackout(blackout)} className="text-sm font-medium text-red-600 hover:text-red-800">{t('common.remove')}</button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <form onSubmit={addBlackout} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                <select value={blackoutForm.equipmentId} onChange={(e) => setBlackoutForm(p => ({ ...p, equipmentId: e.target.value }))} className="px-3 py-2 bg-gray-100 rounded-md text-sm" required>
+                                    <option value="">{t('common.selectEquipment')}</option>
+                                    {equipmentList.map(equipment => <option key={equipment.id} value={equipment.id}>{equipment.name}</option>)}
+                                </select>
+                                <input type="text" placeholder={t('hours.reason')} value={blackoutForm.reason} onChange={(e) => setBlackoutForm(p => ({ ...p, reason: e.target.value }))} className="px-3 py-2 bg-gray-100 rounded-md text-sm"/>
+                                <input type="datetime-local" aria-label={t('common.from')} title={t('hours.labTimeTitle', labTimeZone)} value={blackoutForm.start} onChange={(e) => setBlackoutForm(p => ({ ...p, start: e.target.value }))} className="px-3 py-2 bg-gray-100 rounded-md text-sm" required/>
+                                <input type="datetime-local" aria-label={t('common.to')} title={t('hours.labTimeTitle', labTimeZone)} value={blackoutForm.end} onChange={(e) => setBlackoutForm(p => ({ ...p, end: e.target.value }))} className="px-3 py-2 bg-gray-100 rounded-md text-sm" required/>
+                                <button type="submit" className="sm:col-span-2 text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">{t('hours.addBlackout')}</button>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            </section>
+        )}
+
+        {isManager && showAdminPanel && (
+            <section className="mb-20">
+                <div className="flex justify-between items-center mb-6 gap-4">
+                    <h2 className="text-3xl font-bold text-gray-900">{t('quotas.title')}</h2>
+                    <select value={quotaScope} onChange={(e) => setQuotaScope(e.target.value)} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                        <option value="">{t('quotas.labDefaults')}</option>
+                        {equipmentList.map(equipment => <option key={equipment.id} value={equipment.id}>{equipment.name}{equipment.quotas ? t('common.customSuffix') : ''}</option>)}
+                    </select>
+                </div>
+                {quotaMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{quotaMessage}</div>)}
+                <p className="text-xs text-gray-500 mb-4">{t('quotas.hint')}</p>
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('users.role')}</th>
+                                {QUOTA_FIELDS.map(field => <th key={field} className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t(`quota.${field}`)}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ROLES.filter(canBook).map(quotaRole => (
+                                <tr key={quotaRole} className="border-b last:border-b-0">
+                                    <td className="py-3 px-6 font-medium">{t(`role.${quotaRole}`)}</td>
+                                    {QUOTA_FIELDS.map(field => (
+                                        <td key={field} className="py-3 px-6"><input type="number" min="0" aria-label={t(`quota.${field}`)} value={quotaForm[quotaRole]?.[field] ?? 0} onChange={(e) => updateQuotaForm(quotaRole, field, Number(e.target.value))} className="w-24 px-2 py-1 bg-gray-100 border-gray-200 rounded-md text-sm"/></td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex justify-end gap-3 mt-4">
+                    {quotaScope && equipmentList.find(e => e.id === quotaScope)?.quotas && (<button type="button" onClick={resetEquipmentQuotas} className="text-sm font-semibold bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300">{t('quotas.useLabDefaults')}</button>)}
+                    <button type="button" onClick={saveQuotas} className="text-sm font-semibold bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700">{t('quotas.save')}</button>
+                </div>
+            </section>
+        )}
+
+        {isManager && showAdminPanel && (
+            <section className="mb-20">
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('noShows.title')}</h2>
+                {noShowMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{noShowMessage}</div>)}
+                <div className="bg-white rounded-lg shadow p-6 mb-6">
+                    <h3 className="text-lg font-semibold mb-1">{t('noShows.policy')}</h3>
+                    <p className="text-xs text-gray-500 mb-4">{t('noShows.policyHint')}</p>
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('noShows.graceMinutes')}</label><input type="number" min="0" name="graceMinutes" value={noShowPolicyForm.graceMinutes} onChange={handleNoShowPolicyChange} className="w-32 px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                        <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('noShows.limit')}</label><input type="number" min="0" name="limit" value={noShowPolicyForm.limit} onChange={handleNoShowPolicyChange} className="w-32 px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                        <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('noShows.windowDays')}</label><input type="number" min="1" name="windowDays" value={noShowPolicyForm.windowDays} onChange={handleNoShowPolicyChange} className="w-32 px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                        <button onClick={saveNoShowPolicy} className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-indigo-700">{t('noShows.savePolicy')}</button>
+                    </div>
+                </div>
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('reports.user')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('noShows.inWindow')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('noShows.allTime')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('noShows.lastNoShow')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {noShowsByUser.length === 0 && (
+                                <tr><td colSpan={5} className="py-4 px-6 text-sm text-gray-500">{t('noShows.empty')}</td></tr>
+                            )}
+                            {noShowsByUser.map(u => (
+                                <tr key={u.userId} className="border-b last:border-b-0 hover:bg-gray-50">
+                                    <td className="py-4 px-6 font-medium">{u.userDisplayName}</td>
+                                    <td className="py-4 px-6">
+                                        {u.counted}
+                                        {noShowPolicy.limit > 0 && u.counted >= noShowPolicy.limit && (<span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">{t('noShows.restricted')}</span>)}
                                     </td>
+                                    <td className="py-4 px-6 text-gray-600">{u.bookings.length}</td>
+                                    <td className="py-4 px-6">{formatDateTime(u.bookings[0].startDate)}</td>
+                                    <td className="py-4 px-6"><button onClick={() => setNoShowHistoryUserId(u.userId)} className="text-sm font-medium text-blue-600 hover:text-blue-800">{t('noShows.history')}</button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        )}
+
+        {reports && (
+            <section className="mb-20">
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('reports.title')}</h2>
+                {reportMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{reportMessage}</div>)}
+                <div className="flex flex-wrap items-end gap-4 mb-6">
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('common.from')}</label><input type="date" name="from" value={reportFilters.from} onChange={handleReportFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('common.to')}</label><input type="date" name="to" value={reportFilters.to} min={reportFilters.from} onChange={handleReportFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('common.equipment')}</label>
+                        <select name="equipmentId" value={reportFilters.equipmentId} onChange={handleReportFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm">
+                            <option value="">{t('reports.allEquipment')}</option>
+                            {equipmentList.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                            {archivedEquipment.map(e => <option key={e.id} value={e.id}>{e.name}{t('common.archivedSuffix')}</option>)}
+                        </select>
+                    </div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('reports.groupBy')}</label>
+                        <select name="period" value={reportFilters.period} onChange={handleReportFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm">
+                            <option value="week">{t('reports.week')}</option>
+                            <option value="month">{t('reports.month')}</option>
+                        </select>
+                    </div>
+                </div>
+                <div className="space-y-8">
+                    {[reports.equipmentTable, reports.userTable, reports.periodTable, reports.heatmapTable].map(table => (
+                        <div key={table.title}>
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="text-lg font-semibold">{table.title}</h3>
+                                <div className="flex items-center gap-4">
+                                    <button onClick={() => exportReportCsv(table)} className="text-blue-600 hover:underline text-sm">CSV</button>
+                                    <button onClick={() => exportReportXlsx(table)} className="text-blue-600 hover:underline text-sm">XLSX</button>
+                                </div>
+                            </div>
+                            <div className="overflow-x-auto bg-white rounded-lg shadow">
+                                <table className="min-w-full">
+                                    <thead className="bg-gray-100">
+                                        <tr>{table.header.map(h => <th key={h} className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{h}</th>)}</tr>
+                                    </thead>
+                                    <tbody>
+                                        {table.rows.length === 0 && (
+                                            <tr><td colSpan={table.header.length} className="py-4 px-4 text-sm text-gray-500">{t('reports.empty')}</td></tr>
+                                        )}
+                                        {table.rows.map((row, rowIndex) => (
+                                            <tr key={rowIndex} className="border-b last:border-b-0 hover:bg-gray-50">
+                                                {row.map((cell, i) => table === reports.heatmapTable && i > 0
+                                                    ? <td key={i} className="py-2 px-2 text-xs text-center" style={{ backgroundColor: `rgba(79, 70, 229, ${Number(cell) / heatmapMax})`, color: Number(cell) / heatmapMax > 0.5 ? 'white' : undefined }}>{cell || ''}</td>
+                                                    : <td key={i} className={`py-3 px-4 text-sm whitespace-nowrap ${i === 0 ? 'font-medium' : ''}`}>{cell}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </section>
+        )}
+
+        {isAdmin && showAdminPanel && (
+            <section className="mb-20">
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('users.title')}</h2>
+                {roleMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{roleMessage}</div>)}
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.name')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('users.email')}</th>
+                                <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('users.role')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {userProfiles.map(profile => (
+                                <tr key={profile.id} className="border-b last:border-b-0 hover:bg-gray-50">
+                                    <td className="py-4 px-6 font-medium">{profile.displayName}</td>
+                                    <td className="py-4 px-6 text-gray-600">{profile.email}</td>
+                                    <td className="py-4 px-6">
+                                        <select value={profile.role} onChange={(e) => updateUserRole(profile, e.target.value as Role)} disabled={profile.id === userId} className="px-3 py-1 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                                            {ROLES.map(r => <option key={r} value={r}>{t(`role.${r}`)}</option>)}
+                                        </select>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        )}
+
+        {isAdmin && showAdminPanel && (
+            <section className="mb-20">
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-3xl font-bold text-gray-900">{t('audit.title')}</h2>
+                    <div className="flex items-center gap-4">
+                        <button onClick={() => exportAuditLog('csv')} className="text-blue-600 hover:underline text-sm">CSV</button>
+                        <button onClick={() => exportAuditLog('xlsx')} className="text-blue-600 hover:underline text-sm">XLSX</button>
+                    </div>
+                </div>
+                {auditMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{auditMessage}</div>)}
+                <div className="flex flex-wrap items-end gap-4 mb-6">
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('common.from')}</label><input type="date" name="from" value={auditFilters.from} onChange={handleAuditFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('common.to')}</label><input type="date" name="to" value={auditFilters.to} min={auditFilters.from} onChange={handleAuditFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('audit.target')}</label>
+                        <select name="targetType" value={auditFilters.targetType} onChange={handleAuditFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm">
+                            <option value="">{t('audit.everything')}</option>
+                            {AUDIT_TARGET_TYPES.map(type => <option key={type} value={type}>{t(`auditTarget.${type}`)}</option>)}
+                        </select>
+                    </div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('audit.action')}</label>
+                        <select name="action" value={auditFilters.action} onChange={handleAuditFiltersChange} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm">
+                            <option value="">{t('audit.allActions')}</option>
+                            {AUDIT_ACTIONS.map(action => <option key={action} value={action}>{t(`auditAction.${action}`)}</option>)}
+                        </select>
+                    </div>
+                    <div><label className="block text-sm font-medium text-gray-700 mb-1">{t('audit.search')}</label><input type="search" name="search" value={auditFilters.search} onChange={handleAuditFiltersChange} placeholder={t('audit.searchPlaceholder')} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm"/></div>
+                </div>
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('audit.time')}</th>
+                                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('audit.actor')}</th>
+                                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('audit.action')}</th>
+                                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('audit.target')}</th>
+                                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('audit.changes')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleAuditEntries.length === 0 && (
+                                <tr><td colSpan={5} className="py-4 px-4 text-sm text-gray-500">{t('audit.empty')}</td></tr>
+                            )}
+                            {visibleAuditEntries.map(entry => (
+                                <tr key={entry.id} className="border-b last:border-b-0 hover:bg-gray-50 align-top">
+                                    <td className="py-3 px-4 text-sm whitespace-nowrap">{formatDateKeyTime(entry.at.toDate(), labTimeZone)}</td>
+                                    <td className="py-3 px-4 text-sm font-medium">{entry.actorName}</td>
+                                    <td className="py-3 px-4 text-sm whitespace-nowrap">{t(`auditAction.${entry.action}`)}</td>
+                                    <td className="py-3 px-4 text-sm"><span className="text-xs text-gray-500">{t(`auditTarget.${entry.targetType}`)}</span><br/>{entry.targetName}</td>
+                                    <td className="py-3 px-4 text-xs text-gray-600 break-all">{formatAuditChanges(entry, labTimeZone).map((line, i) => <div key={i}>{line}</div>)}</td>
                                 </tr>
                             ))}
                         </tbody>
@@ -386,91 +1918,296 @@ export default function App() {
             </section>
         )}
         <section className="mb-20">
-          <h2 className="text-3xl font-bold text-gray-900 mb-6">Available Equipment</h2>
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-3xl font-bold text-gray-900">{t('equipment.title')}</h2>
+            {categories.length > 0 && (
+              <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                <option value="">{t('equipment.allCategories')}</option>
+                {categories.map(category => <option key={category} value={category}>{category}</option>)}
+              </select>
+            )}
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {equipmentList.map(equipment => (
+            {bookableEquipment.map(equipment => (
               <div key={equipment.id} className="bg-white border border-gray-200 rounded-lg p-6 flex flex-col">
-                <h3 className="text-lg font-semibold text-indigo-700">{equipment.name}</h3>
+                {equipment.imageUrl && (<img src={equipment.imageUrl} alt={equipment.name} className="w-full h-40 object-cover rounded-md mb-4"/>)}
+                <div className="flex justify-between items-start gap-2">
+                  <h3 className="text-lg font-semibold text-indigo-700">{equipment.name}</h3>
+                  {equipmentStatusOf(equipment) !== 'available' && (<span className={`inline-flex px-2 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${EQUIPMENT_STATUS_BADGE_CLASSES[equipmentStatusOf(equipment)]}`}>{t(`equipmentStatus.${equipmentStatusOf(equipment)}`)}</span>)}
+                </div>
+                {(equipment.category || equipment.location) && (<p className="text-xs text-gray-500 mt-1">{[equipment.category, equipment.location].filter(Boolean).join(' · ')}</p>)}
                 <p className="text-gray-600 text-sm my-2 flex-grow">{equipment.description}</p>
-                <button onClick={() => openBookingModal(equipment)} className="w-full bg-indigo-600 text-white py-2 mt-4 rounded-md font-semibold hover:bg-indigo-700">Book Now</button>
+                {equipment.responsiblePerson && (<p className="text-xs text-gray-500">{t('equipment.contact', equipment.responsiblePerson)}</p>)}
+                {equipment.requiresApproval && (<p className="text-xs font-semibold text-yellow-700">{t('equipment.requiresApproval')}</p>)}
+                <button onClick={() => openBookingModal(equipment)} disabled={!canBook(role) || equipmentStatusOf(equipment) !== 'available'} title={canBook(role) ? undefined : (userId ? t('equipment.viewOnly') : t('equipment.signInToBook'))} className="w-full bg-indigo-600 text-white py-2 mt-4 rounded-md font-semibold hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed">{t('equipment.bookNow')}</button>
               </div>
             ))}
           </div>
         </section>
         <section>
-          <h2 className="text-3xl font-bold text-gray-900 mb-6">My Bookings</h2>
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-3xl font-bold text-gray-900">{t('myBookings.title')}</h2>
+            {myBookings.length > 0 && (<button onClick={() => exportBookings(myBookings, 'my-bookings.ics')} className="bg-white border border-indigo-600 text-indigo-600 px-4 py-2 rounded-md text-sm font-semibold hover:bg-indigo-50">{t('myBookings.downloadIcs')}</button>)}
+          </div>
+          {checkInMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{checkInMessage}</div>)}
           <div className="overflow-x-auto bg-white rounded-lg shadow">
             <table className="min-w-full">
               <thead className="bg-gray-100">
                 <tr>
-                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Equipment</th>
-                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
-                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
-                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.equipment')}</th>
+                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.from')}</th>
+                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.to')}</th>
+                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.status')}</th>
+                  <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
                 </tr>
               </thead>
               <tbody>
                 {myBookings.map(booking => (
                   <tr key={booking.id} className="border-b last:border-b-0 hover:bg-gray-50">
-                    <td className="py-4 px-6 font-medium">{booking.equipmentName}</td>
+                    <td className="py-4 px-6 font-medium">
+                      {booking.equipmentName}
+                      {booking.seriesId && (<span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-800">{t('myBookings.recurring')}</span>)}
+                      {booking.waitlistEntryId && (<span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">{t('myBookings.fromWaitlist')}</span>)}
+                      {ACTIVE_STATUSES.includes(booking.status) && !equipmentList.some(e => e.id === booking.equipmentId) && (<span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">{t('myBookings.equipmentRemoved')}</span>)}
+                    </td>
                     <td className="py-4 px-6">{formatDateTime(booking.startDate)}</td>
                     <td className="py-4 px-6">{formatDateTime(booking.endDate)}</td>
-                    <td className="py-4 px-6"><span className={`inline-flex px-2 py-1 rounded-full text-xs font-semibold ${booking.status === 'booked' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>{booking.status}</span></td>
-                    <td className="py-4 px-6">{booking.status === 'booked' && (<button onClick={() => openCancelModal(booking)} className="text-red-600 hover:underline text-sm">Cancel</button>)}</td>
+                    <td className="py-4 px-6">
+                      <span className={`inline-flex px-2 py-1 rounded-full text-xs font-semibold ${STATUS_BADGE_CLASSES[booking.status]}`}>{t(`bookingStatus.${booking.status}`)}</span>
+                      {booking.status === 'rejected' && booking.rejectionReason && (<p className="text-xs text-gray-500 mt-1">{booking.rejectionReason}</p>)}
+                      {booking.status === 'cancelled' && booking.cancellationReason && (<p className="text-xs text-gray-500 mt-1">{booking.cancellationReason}</p>)}
+                      {booking.checkedInAt && (<p className="text-xs text-gray-500 mt-1">{t('myBookings.used', formatDateTime(booking.checkedInAt), booking.checkedOutAt ? formatDateTime(booking.checkedOutAt) : t('myBookings.now'))}</p>)}
+                    </td>
+                    <td className="py-4 px-6">
+                      <div className="flex items-center gap-4">
+                        {canCheckIn(booking, Date.now()) && (<button onClick={() => checkInBooking(booking)} className="text-green-600 hover:underline text-sm">{t('myBookings.checkIn')}</button>)}
+                        {booking.checkedInAt && !booking.checkedOutAt && (<button onClick={() => checkOutBooking(booking)} className="text-green-600 hover:underline text-sm">{t('myBookings.checkOut')}</button>)}
+                        {ACTIVE_STATUSES.includes(booking.status) && booking.startDate.toMillis() > Date.now() && (<button onClick={() => openEditBookingModal(booking)} className="text-blue-600 hover:underline text-sm">{t('common.edit')}</button>)}
+                        {ACTIVE_STATUSES.includes(booking.status) && (<button onClick={() => openCancelModal(booking)} className="text-red-600 hover:underline text-sm">{t('common.cancel')}</button>)}
+                        {booking.history && booking.history.length > 0 && (<button onClick={() => setBookingDetails(booking)} className="text-gray-600 hover:underline text-sm">{t('bookings.history')}</button>)}
+                        <button onClick={() => exportBookings([booking], `booking-${booking.id}.ics`)} className="text-gray-600 hover:underline text-sm">.ics</button>
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
         </section>
+        {myWaitlist.length > 0 && (
+          <section className="mt-20">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('myWaitlist.title')}</h2>
+            <p className="text-sm text-gray-500 mb-6">{t('myWaitlist.hint')}</p>
+            {waitlistMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{waitlistMessage}</div>)}
+            <div className="overflow-x-auto bg-white rounded-lg shadow">
+              <table className="min-w-full">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.equipment')}</th>
+                    <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.from')}</th>
+                    <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.to')}</th>
+                    <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('waitlist.joined')}</th>
+                    <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {myWaitlist.map(entry => (
+                    <tr key={entry.id} className="border-b last:border-b-0 hover:bg-gray-50">
+                      <td className="py-4 px-6 font-medium">{entry.equipmentName}</td>
+                      <td className="py-4 px-6">{formatDateTime(entry.startDate)}</td>
+                      <td className="py-4 px-6">{formatDateTime(entry.endDate)}</td>
+                      <td className="py-4 px-6 text-gray-600">{formatDateTime(entry.createdAt)}</td>
+                      <td className="py-4 px-6"><button onClick={() => leaveWaitlist(entry)} className="text-red-600 hover:underline text-sm">{t('myWaitlist.leave')}</button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+        {calendarFeedBaseUrl && userId && (
+          <section className="mt-20">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('feeds.title')}</h2>
+            <p className="text-sm text-gray-500 mb-6">{t('feeds.hint')}</p>
+            {feedMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{feedMessage}</div>)}
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <button onClick={() => createCalendarFeed('user')} className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-indigo-700">{t('feeds.newUserFeed')}</button>
+              <select value={feedEquipmentId} onChange={(e) => setFeedEquipmentId(e.target.value)} className="px-3 py-2 bg-gray-100 border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                <option value="">{t('common.selectEquipment')}</option>
+                {equipmentList.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+              </select>
+              <button onClick={() => createCalendarFeed('equipment')} className="bg-white border border-indigo-600 text-indigo-600 px-4 py-2 rounded-md text-sm font-semibold hover:bg-indigo-50">{t('feeds.newEquipmentFeed')}</button>
+            </div>
+            {calendarFeeds.length > 0 && (
+              <div className="overflow-x-auto bg-white rounded-lg shadow">
+                <table className="min-w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('feeds.feed')}</th>
+                      <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('feeds.url')}</th>
+                      <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('feeds.created')}</th>
+                      <th className="py-3 px-6 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calendarFeeds.map(feed => (
+                      <tr key={feed.id} className="border-b last:border-b-0 hover:bg-gray-50">
+                        <td className="py-4 px-6 font-medium">{feed.scope === 'user' ? t('feeds.myBookings') : feed.equipmentName}</td>
+                        <td className="py-4 px-6 text-xs text-gray-600 font-mono break-all">{`${calendarFeedBaseUrl}/${feed.id}.ics`}</td>
+                        <td className="py-4 px-6 text-gray-600">{formatDateTime(feed.createdAt)}</td>
+                        <td className="py-4 px-6">
+                          <div className="flex items-center gap-4">
+                            <button onClick={() => copyFeedUrl(feed)} className="text-blue-600 hover:underline text-sm">{t('feeds.copy')}</button>
+                            <button onClick={() => revokeCalendarFeed(feed)} className="text-red-600 hover:underline text-sm">{t('feeds.revoke')}</button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        )}
+        {userId && (
+          <section className="mt-20">
+            <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('notifications.title')}</h2>
+            {preferencesMessage && (<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{preferencesMessage}</div>)}
+            <div className="bg-white rounded-lg shadow p-6 space-y-3 text-sm">
+              <label className="flex items-center gap-2"><input type="checkbox" checked={notificationPreferences.confirmations} onChange={(e) => updateNotificationPreferences({ confirmations: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>{t('notifications.confirmations')}</label>
+              <label className="flex items-center gap-2"><input type="checkbox" checked={notificationPreferences.cancellations} onChange={(e) => updateNotificationPreferences({ cancellations: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>{t('notifications.cancellations')}</label>
+              <label className="flex items-center gap-2"><input type="checkbox" checked={notificationPreferences.equipmentChanges} onChange={(e) => updateNotificationPreferences({ equipmentChanges: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>{t('notifications.equipmentChanges')}</label>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2"><input type="checkbox" checked={notificationPreferences.reminders} onChange={(e) => updateNotificationPreferences({ reminders: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>{t('notifications.reminders')}</label>
+                <select value={notificationPreferences.reminderHours} onChange={(e) => updateNotificationPreferences({ reminderHours: Number(e.target.value) })} disabled={!notificationPreferences.reminders} className="px-2 py-1 bg-gray-100 border-gray-200 rounded-md text-sm disabled:opacity-50">
+                  {REMINDER_HOUR_OPTIONS.map(hours => <option key={hours} value={hours}>{t('notifications.hours', hours)}</option>)}
+                </select>
+                <span>{t('notifications.beforeStart')}</span>
+              </div>
+            </div>
+          </section>
+        )}
       </main>
 
       {/* --- Modals --- */}
       {showBookingModal && selectedEquipment && (
         <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-lg p-8">
-            <h2 className="text-2xl font-bold mb-6 text-center">Book "{selectedEquipment.name}"</h2>
+            <h2 className="text-2xl font-bold mb-2 text-center">{bookingToEdit ? t('booking.editTitle') : t('booking.title', selectedEquipment.name)}</h2>
+            <p className="text-sm text-gray-500 mb-6 text-center">{(() => {
+              const rules = bookingRulesOf(selectedEquipment);
+              return [
+                t('booking.minimum', formatMinutes(rules.minDurationMinutes)),
+                ...(rules.maxDurationMinutes > 0 ? [t('booking.maximum', formatMinutes(rules.maxDurationMinutes))] : []),
+                ...(rules.leadTimeHours > 0 ? [t('booking.leadTime', rules.leadTimeHours)] : []),
+              ].join(t('booking.separator'));
+            })()}<br/>{t('booking.timeZoneNote', labTimeZone)}</p>
             <form onSubmit={submitBooking}>
+              {bookingToEdit && (
+                <div className="mb-5">
+                  <label htmlFor="editEquipment" className="block text-sm font-semibold text-gray-700 mb-1">{t('common.equipment')}</label>
+                  <select id="editEquipment" value={selectedEquipment.id} onChange={handleEditEquipmentChange} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                    {equipmentList.filter(e => equipmentStatusOf(e) === 'available' || e.id === selectedEquipment.id).map(equipment => <option key={equipment.id} value={equipment.id}>{equipment.name}</option>)}
+                  </select>
+                </div>
+              )}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5">
                 <div>
-                  <label htmlFor="startDate" className="block text-sm font-semibold text-gray-700 mb-1">Start Date</label>
+                  <label htmlFor="startDate" className="block text-sm font-semibold text-gray-700 mb-1">{t('booking.startDate')}</label>
                   <input type="date" id="startDate" name="startDate" value={bookingForm.startDate} onChange={handleBookingFormChange} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" required/>
                 </div>
                 <div>
-                  <label htmlFor="startTime" className="block text-sm font-semibold text-gray-700 mb-1">Start Time</label>
+                  <label htmlFor="startTime" className="block text-sm font-semibold text-gray-700 mb-1">{t('booking.startTime')}</label>
                   <select id="startTime" name="startTime" value={bookingForm.startTime} onChange={handleBookingFormChange} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" required>
-                    {timeSlots.map(time => <option key={time} value={time}>{time}</option>)}
+                    {startTimeSlots.length === 0 && <option value="">{t('hours.closed')}</option>}
+                    {startTimeSlots.map(time => <option key={time} value={time}>{time}</option>)}
                   </select>
                 </div>
                 <div>
-                  <label htmlFor="endDate" className="block text-sm font-semibold text-gray-700 mb-1">End Date</label>
+                  <label htmlFor="endDate" className="block text-sm font-semibold text-gray-700 mb-1">{t('booking.endDate')}</label>
                   <input type="date" id="endDate" name="endDate" value={bookingForm.endDate} onChange={handleBookingFormChange} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" required/>
                 </div>
                 <div>
-                  <label htmlFor="endTime" className="block text-sm font-semibold text-gray-700 mb-1">End Time</label>
+                  <label htmlFor="endTime" className="block text-sm font-semibold text-gray-700 mb-1">{t('booking.endTime')}</label>
                   <select id="endTime" name="endTime" value={bookingForm.endTime} onChange={handleBookingFormChange} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" required>
-                     {timeSlots.map(time => <option key={time} value={time}>{time}</option>)}
+                     {endTimeSlots.length === 0 && <option value="">{t('hours.closed')}</option>}
+                     {endTimeSlots.map(time => <option key={time} value={time}>{time}</option>)}
                   </select>
                 </div>
               </div>
+              {!bookingToEdit && (<div className="mt-5">
+                <label htmlFor="frequency" className="block text-sm font-semibold text-gray-700 mb-1">{t('booking.repeat')}</label>
+                <select id="frequency" name="frequency" value={recurrenceForm.frequency} onChange={handleRecurrenceFormChange} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                  <option value="none">{t('booking.doesNotRepeat')}</option>
+                  <option value="daily">{t('booking.daily')}</option>
+                  <option value="weekly">{t('booking.weekly')}</option>
+                </select>
+              </div>)}
+              {!bookingToEdit && recurrenceForm.frequency !== 'none' && (
+                <div className="mt-4 space-y-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <label htmlFor="interval" className="font-semibold">{t('booking.every')}</label>
+                    <input type="number" id="interval" name="interval" min={1} value={recurrenceForm.interval} onChange={handleRecurrenceFormChange} className="w-20 px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" required/>
+                    <span>{recurrenceForm.frequency === 'daily' ? t('booking.days') : t('booking.weeks')}</span>
+                  </div>
+                  {recurrenceForm.frequency === 'weekly' && (
+                    <div className="flex flex-wrap gap-2">
+                      {[0, 1, 2, 3, 4, 5, 6].map(weekday => (
+                        <button type="button" key={weekday} onClick={() => toggleRecurrenceWeekday(weekday)} className={`px-3 py-1 rounded-full text-xs font-semibold ${recurrenceForm.weekdays.includes(weekday) ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}>{weekdayName(weekday, 'short')}</button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 text-sm text-gray-700">
+                    <label className="flex items-center gap-2"><input type="radio" name="endType" value="until" checked={recurrenceForm.endType === 'until'} onChange={handleRecurrenceFormChange}/>{t('booking.until')}</label>
+                    <input type="date" name="until" value={recurrenceForm.until} onChange={handleRecurrenceFormChange} disabled={recurrenceForm.endType !== 'until'} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"/>
+                    <label className="flex items-center gap-2"><input type="radio" name="endType" value="count" checked={recurrenceForm.endType === 'count'} onChange={handleRecurrenceFormChange}/>{t('booking.occurrences')}</label>
+                    <input type="number" name="count" min={1} max={MAX_OCCURRENCES} value={recurrenceForm.count} onChange={handleRecurrenceFormChange} disabled={recurrenceForm.endType !== 'count'} className="w-full px-3 py-2 bg-gray-100 border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"/>
+                  </div>
+                </div>
+              )}
+              {isManager && !bookingToEdit && (
+                <label className="mt-4 flex items-center gap-2 text-sm text-gray-700"><input type="checkbox" checked={overrideQuotas} onChange={(e) => { setOverrideQuotas(e.target.checked); setOccurrenceReport([]); }} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>{t('booking.overrideQuotas')}</label>
+              )}
               {message && (<div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative text-sm">{message}</div>)}
+              {occurrenceReport.length > 0 && (
+                <div className="mt-4 max-h-48 overflow-y-auto border border-gray-200 rounded-md">
+                  <ul className="divide-y divide-gray-100 text-sm">
+                    {occurrenceReport.map(occurrence => (
+                      <li key={occurrence.start.getTime()} className={`px-3 py-2 flex justify-between ${occurrence.clash || occurrence.problem ? 'bg-red-50 text-red-700' : 'text-gray-700'}`}>
+                        <span>{formatDateTime(Timestamp.fromDate(occurrence.start))} – {formatDateTime(Timestamp.fromDate(occurrence.end))}</span>
+                        <span className="text-right">{occurrence.problem ?? (occurrence.clash ? t('booking.clashesWith', formatDateTime(occurrence.clash.start), formatDateTime(occurrence.clash.end)) : t('booking.free'))}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               <div className="flex justify-end space-x-4 mt-8">
-                <button type="button" onClick={closeBookingModal} className="px-6 py-2 text-sm font-semibold bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">Cancel</button>
-                <button type="submit" className="px-6 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-700">Confirm Booking</button>
+                {canJoinWaitlist && (
+                  <button type="button" onClick={joinWaitlist} className="px-6 py-2 text-sm font-semibold bg-white border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50">{t('booking.joinWaitlist')}</button>
+                )}
+                {occurrenceReport.some(o => !o.clash && !o.problem) && (
+                  <button type="button" onClick={() => createBookings(true)} className="px-6 py-2 text-sm font-semibold bg-white border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50">{t('booking.bookFreeOnly', occurrenceReport.filter(o => !o.clash && !o.problem).length)}</button>
+                )}
+                <button type="button" onClick={closeBookingModal} className="px-6 py-2 text-sm font-semibold bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">{t('common.cancel')}</button>
+                <button type="submit" className="px-6 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-700">{bookingToEdit ? t('common.saveChanges') : selectedEquipment.requiresApproval ? t('booking.request') : t('booking.confirm')}</button>
               </div>
             </form>
           </div>
         </div>
       )}
       
-      {isAdmin && showAddEquipmentModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6"><h2 className="text-2xl font-bold mb-4 text-center">Add New Equipment</h2><form onSubmit={addEquipment}><div className="mb-4"><label htmlFor="newName" className="block font-semibold mb-2">Name</label><input type="text" id="newName" name="name" value={equipmentForm.name} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded" required/></div><div className="mb-4"><label htmlFor="newDescription" className="block font-semibold mb-2">Description</label><textarea id="newDescription" name="description" value={equipmentForm.description} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded" rows={3} required></textarea></div>{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={() => { setShowAddEquipmentModal(false); setMessage(''); }} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">Cancel</button><button type="submit" className="bg-purple-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-purple-700">Add Equipment</button></div></form></div></div>)}
+      {isManager && showAddEquipmentModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6"><h2 className="text-2xl font-bold mb-4 text-center">{t('equipmentModal.addTitle')}</h2><form onSubmit={addEquipment}>{renderEquipmentFormFields('new')}{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={() => { setShowAddEquipmentModal(false); setMessage(''); }} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('common.cancel')}</button><button type="submit" className="bg-purple-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-purple-700">{t('manageEquipment.add')}</button></div></form></div></div>)}
       
-      {isAdmin && showEditEquipmentModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6"><h2 className="text-2xl font-bold mb-4 text-center">Edit Equipment</h2><form onSubmit={updateEquipment}><div className="mb-4"><label htmlFor="editName" className="block font-semibold mb-2">Name</label><input type="text" id="editName" name="name" value={equipmentForm.name} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded" required/></div><div className="mb-4"><label htmlFor="editDescription" className="block font-semibold mb-2">Description</label><textarea id="editDescription" name="description" value={equipmentForm.description} onChange={handleEquipmentFormChange} className="w-full px-3 py-2 border rounded" rows={3} required></textarea></div>{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={closeEditEquipmentModal} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">Cancel</button><button type="submit" className="bg-blue-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-blue-700">Save Changes</button></div></form></div></div>)}
+      {isManager && showEditEquipmentModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6"><h2 className="text-2xl font-bold mb-4 text-center">{t('equipmentModal.editTitle')}</h2><form onSubmit={updateEquipment}>{renderEquipmentFormFields('edit')}{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={closeEditEquipmentModal} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('common.cancel')}</button><button type="submit" className="bg-blue-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-blue-700">{t('common.saveChanges')}</button></div></form></div></div>)}
+
+      {isManager && showArchiveEquipmentModal && equipmentToArchive && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6"><h2 className="text-2xl font-bold text-gray-900 mb-4 text-center">{t('archiveModal.title')}</h2><form onSubmit={archiveEquipment}><p className="text-gray-700 mb-4 text-center">{t('archiveModal.intro', equipmentToArchive.name)}</p>{archiveAffected.length === 0 ? (<p className="text-sm text-gray-600 mb-4 text-center">{t('archiveModal.noUpcoming')}</p>) : (<div className="mb-4 space-y-3 text-sm"><p className="font-semibold">{t('archiveModal.affected', archiveAffected.length)}</p><label className="flex items-center gap-2"><input type="radio" name="action" value="cancel" checked={archiveForm.action === 'cancel'} onChange={handleArchiveFormChange}/>{t('archiveModal.cancelThem')}</label><label className="flex items-center gap-2"><input type="radio" name="action" value="move" checked={archiveForm.action === 'move'} onChange={handleArchiveFormChange}/>{t('archiveModal.moveThem')}</label>{archiveForm.action === 'move' && (<select name="targetId" value={archiveForm.targetId} onChange={handleArchiveFormChange} className="w-full px-3 py-2 border rounded"><option value="">{t('common.selectEquipment')}</option>{equipmentList.filter(e => e.id !== equipmentToArchive.id && equipmentStatusOf(e) === 'available').map(e => <option key={e.id} value={e.id}>{e.name}</option>)}</select>)}{archiveForm.action === 'move' && archiveClashes.length > 0 && (<p className="text-yellow-700">{t('archiveModal.clashes', archiveClashes.length)}</p>)}{(archiveForm.action === 'cancel' || archiveClashes.length > 0) && (<div><label htmlFor="archiveReason" className="block font-semibold mb-1">{t('archiveModal.reason')}</label><textarea id="archiveReason" name="reason" value={archiveForm.reason} onChange={handleArchiveFormChange} className="w-full px-3 py-2 border rounded" rows={3} required></textarea></div>)}</div>)}{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={closeArchiveEquipmentModal} className="bg-gray-300 text-gray-800 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('common.cancel')}</button><button type="submit" className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">{t('archiveModal.title')}</button></div></form></div></div>)}
+
+      {isManager && showRejectModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6"><h2 className="text-2xl font-bold mb-4 text-center">{t('rejectModal.title')}</h2><p className="mb-4 text-center">{t('rejectModal.question', bookingToReject?.userDisplayName ?? '', bookingToReject?.equipmentName ?? '')}</p><form onSubmit={rejectBooking}><div className="mb-4"><label htmlFor="rejectionReason" className="block font-semibold mb-2">{t('hours.reason')}</label><textarea id="rejectionReason" value={rejectionReason} onChange={(e) => setRejectionReason(e.target.value)} className="w-full px-3 py-2 border rounded" rows={3} required></textarea></div>{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={closeRejectModal} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('common.cancel')}</button><button type="submit" className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">{t('rejectModal.title')}</button></div></form></div></div>)}
 
-      {isAdmin && showDeleteEquipmentModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6"><h2 className="text-2xl font-bold text-gray-900 mb-4 text-center">Confirm Deletion</h2><p className="text-gray-700 mb-6 text-center">Are you sure you want to delete <span className="font-semibold">"{equipmentToDelete?.name}"</span>? This cannot be undone.</p>{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={closeDeleteEquipmentModal} className="bg-gray-300 text-gray-800 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">Cancel</button><button type="button" onClick={deleteEquipment} className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">Delete Equipment</button></div></div></div>)}
+      {bookingDetails && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6"><h2 className="text-2xl font-bold mb-4 text-center">{t('details.title')}</h2><dl className="grid grid-cols-3 gap-y-2 text-sm mb-6"><dt className="font-semibold text-gray-600">{t('common.equipment')}</dt><dd className="col-span-2">{bookingDetails.equipmentName}</dd><dt className="font-semibold text-gray-600">{t('details.bookedBy')}</dt><dd className="col-span-2">{bookingDetails.userDisplayName}</dd><dt className="font-semibold text-gray-600">{t('common.from')}</dt><dd className="col-span-2">{formatDateTime(bookingDetails.startDate)}</dd><dt className="font-semibold text-gray-600">{t('common.to')}</dt><dd className="col-span-2">{formatDateTime(bookingDetails.endDate)}</dd><dt className="font-semibold text-gray-600">{t('common.status')}</dt><dd className="col-span-2"><span className={`inline-flex px-2 py-1 rounded-full text-xs font-semibold ${STATUS_BADGE_CLASSES[bookingDetails.status]}`}>{t(`bookingStatus.${bookingDetails.status}`)}</span></dd></dl>{bookingDetails.history && bookingDetails.history.length > 0 && (<div className="mb-6"><h3 className="font-semibold text-sm mb-2">{t('details.changeHistory')}</h3><ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 text-xs text-gray-600">{bookingDetails.history.map(change => (<li key={change.changedAt.toMillis()} className="py-2"><p className="font-medium text-gray-800">{formatDateTime(change.changedAt)} · {change.changedByName}</p><p>{change.from.equipmentName}, {formatDateTime(change.from.startDate)} – {formatDateTime(change.from.endDate)}</p><p>→ {change.to.equipmentName}, {formatDateTime(change.to.startDate)} – {formatDateTime(change.to.endDate)}</p></li>))}</ul></div>)}<div className="flex justify-end space-x-3"><button type="button" onClick={() => setBookingDetails(null)} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('common.close')}</button>{canModifyBooking(bookingDetails) && ACTIVE_STATUSES.includes(bookingDetails.status) && bookingDetails.startDate.toMillis() > Date.now() && (<button type="button" onClick={() => { openEditBookingModal(bookingDetails); setBookingDetails(null); }} className="bg-blue-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-blue-700">{t('common.edit')}</button>)}{canModifyBooking(bookingDetails) && ACTIVE_STATUSES.includes(bookingDetails.status) && (<button type="button" onClick={() => { openCancelModal(bookingDetails); setBookingDetails(null); }} className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">{t('details.cancelBooking')}</button>)}</div></div></div>)}
+      {noShowHistory && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-lg p-6"><h2 className="text-2xl font-bold mb-4 text-center">{t('noShows.historyTitle', noShowHistory.userDisplayName)}</h2><ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 text-sm mb-6">{noShowHistory.bookings.map(b => (<li key={b.id} className="py-2 flex justify-between items-center gap-4"><div><p className="font-medium text-gray-800">{b.equipmentName}</p><p className="text-xs text-gray-600">{formatDateTime(b.startDate)} – {formatDateTime(b.endDate)}{b.noShowExcused ? t('noShows.excusedSuffix') : ''}</p></div><button onClick={() => setNoShowExcused(b, !b.noShowExcused)} className="text-sm font-medium text-blue-600 hover:text-blue-800 whitespace-nowrap">{b.noShowExcused ? t('noShows.countAgain') : t('noShows.excuse')}</button></li>))}</ul><div className="flex justify-end"><button type="button" onClick={() => setNoShowHistoryUserId(null)} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('common.close')}</button></div></div></div>)}
 
-      {showCancelModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6"><h2 className="text-2xl font-bold mb-4 text-center">Confirm Cancellation</h2><p className="mb-6 text-center">Cancel booking for <span className="font-semibold">"{bookingToCancel?.equipmentName}"</span>?</p><div className="flex justify-end space-x-3"><button type="button" onClick={closeCancelModal} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">No</button><button type="button" onClick={cancelBooking} className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">Yes, Cancel</button></div></div></div>)}
+      {showCancelModal && (<div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center p-4 z-50"><div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6"><h2 className="text-2xl font-bold mb-4 text-center">{t('cancelModal.title')}</h2><p className="mb-6 text-center">{bookingToCancel?.seriesId ? t('cancelModal.questionOn', bookingToCancel.equipmentName, formatDateTime(bookingToCancel.startDate)) : t('cancelModal.question', bookingToCancel?.equipmentName ?? '')}</p>{bookingToCancel?.seriesId && (<p className="mb-6 text-center text-sm text-gray-600">{t('cancelModal.seriesHint')}</p>)}{message && (<div className="bg-red-100 border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{message}</div>)}<div className="flex justify-end flex-wrap gap-3"><button type="button" onClick={closeCancelModal} className="bg-gray-300 py-2 px-4 rounded-md font-semibold hover:bg-gray-400">{t('cancelModal.no')}</button>{bookingToCancel?.seriesId ? (<><button type="button" onClick={() => cancelBooking('occurrence')} className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">{t('cancelModal.occurrence')}</button><button type="button" onClick={() => cancelBooking('series')} className="bg-red-800 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-900">{t('cancelModal.series')}</button></>) : (<button type="button" onClick={() => cancelBooking()} className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700">{t('cancelModal.yes')}</button>)}</div></div></div>)}
     </div>
   );
 }
\ No newline at end of file
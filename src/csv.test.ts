@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv, toCsvCell } from './csv';
+
+describe('toCsvCell', () => {
+  it('writes plain text and numbers as they are', () => {
+    expect(toCsvCell('Microscope')).toBe('Microscope');
+    expect(toCsvCell(-1.5)).toBe('-1.5');
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(toCsvCell('Smith, Jane')).toBe('"Smith, Jane"');
+    expect(toCsvCell('the "big" one')).toBe('"the ""big"" one"');
+    expect(toCsvCell('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('keeps text that looks like a formula from running', () => {
+    expect(toCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(toCsvCell('+1')).toBe("'+1");
+    expect(toCsvCell('-1')).toBe("'-1");
+    expect(toCsvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+});
+
+describe('toCsv', () => {
+  it('joins cells with commas and rows with CRLF', () => {
+    expect(toCsv([['Equipment', 'Hours'], ['Microscope', 2]])).toBe('Equipment,Hours\r\nMicroscope,2');
+  });
+});
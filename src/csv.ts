@@ -0,0 +1,14 @@
+// src/csv.ts
+//
+// CSV serialisation for the report and audit log downloads.
+
+// Text starting with =, +, - or @ would run as a formula in Excel, and names and reasons come
+// from users, so such cells are prefixed with an apostrophe. Numbers are written as they are.
+export const toCsvCell = (cell: string | number) => {
+  const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) => rows
+  .map(row => row.map(toCsvCell).join(','))
+  .join('\r\n');
@@ -0,0 +1,30 @@
+// src/data/audit.ts
+//
+// Builds the audit entries that bookingService writes alongside every change.
+
+import { Timestamp } from 'firebase/firestore';
+import { formatDateKeyTime } from './time';
+import type { AuditAction, AuditEvent, AuditTarget, Booking, Equipment } from './types';
+
+// Bookkeeping fields that change with every write; the entry's own time replaces them.
+const AUDIT_IGNORED_FIELDS = ['id', 'updatedAt', 'history'];
+
+export const equipmentTarget = (equipment: Pick<Equipment, 'id' | 'name'>): AuditTarget => ({ targetType: 'equipment', targetId: equipment.id, targetName: equipment.name });
+// The start time in the name is the lab's wall-clock time, as shown in timeZone.
+export const bookingTarget = (booking: Pick<Booking, 'id' | 'equipmentName' | 'userDisplayName' | 'startDate'>, timeZone: string): AuditTarget =>
+  ({ targetType: 'booking', targetId: booking.id, targetName: `${booking.equipmentName} · ${booking.userDisplayName} · ${formatDateKeyTime(booking.startDate.toDate(), timeZone)}` });
+export const blackoutTarget = (blackoutId: string, equipmentName: string): AuditTarget => ({ targetType: 'blackout', targetId: blackoutId, targetName: equipmentName });
+export const SETTINGS_TARGET: AuditTarget = { targetType: 'settings', targetId: 'lab', targetName: 'Lab settings' };
+
+const sameAuditValue = (a: unknown, b: unknown) =>
+  (a instanceof Timestamp && b instanceof Timestamp ? a.isEqual(b) : JSON.stringify(a ?? null) === JSON.stringify(b ?? null));
+
+// Records the fields of after that differ from before. Pass {} as before for a new document,
+// and null in after for a field that is removed.
+export const auditEvent = (action: AuditAction, target: AuditTarget, before: object, after: object): AuditEvent => {
+  const previous = before as Record<string, unknown>;
+  const changes = Object.entries(after)
+    .filter(([field, value]) => !AUDIT_IGNORED_FIELDS.includes(field) && !sameAuditValue(previous[field], value))
+    .map(([field, value]) => [field, { before: previous[field] ?? null, after: value ?? null }]);
+  return { action, ...target, changes: Object.fromEntries(changes) };
+};
@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BookingConflictError, BookingRuleError, createBookingService, type Actor, type BookingService, type LabSnapshot } from './bookingService';
+import { createMemoryStore } from './memoryStore';
+import { DEFAULT_LAB_SETTINGS, NO_QUOTA } from './rules';
+import type { Store } from './store';
+import { Timestamp } from 'firebase/firestore';
+import type { Booking, BookingNotification, Equipment, EquipmentSchedule, LabSettings, RecurrenceRule, WaitlistEntry } from './types';
+
+const APP_ID = 'test';
+const DATA = `artifacts/${APP_ID}/public/data`;
+
+const alice: Actor = { id: 'alice', name: 'Alice', role: 'member' };
+const bob: Actor = { id: 'bob', name: 'Bob', role: 'member' };
+const maria: Actor = { id: 'maria', name: 'Maria', role: 'labManager' };
+const microscope: Equipment = { id: 'microscope', name: 'Microscope', description: '' };
+const spare: Equipment = { id: 'spare', name: 'Spare microscope', description: '' };
+const confocal: Equipment = { id: 'confocal', name: 'Confocal', description: '', requiresApproval: true };
+const once: RecurrenceRule = { frequency: 'none', interval: 1, weekdays: [], endType: 'count', until: '', count: 1 };
+
+// Hours on a day a week from now, inside the default opening hours of the UTC lab.
+const day = new Date(Date.now() + 7 * 86400000).toISOString().slice(0, 10);
+const at = (time: string) => new Date(`${day}T${time}Z`);
+const settings: LabSettings = { ...DEFAULT_LAB_SETTINGS, timeZone: 'UTC' };
+
+describe('bookingService', () => {
+  let store: Store;
+  let service: BookingService;
+
+  beforeEach(() => {
+    store = createMemoryStore({
+      ...Object.fromEntries([microscope, spare, confocal].map(({ id, ...equipment }) => [`${DATA}/equipment/${id}`, equipment])),
+      [`${DATA}/settings/lab`]: settings,
+    });
+    service = createBookingService(store, APP_ID);
+  });
+
+  // What the app would have loaded from its subscriptions.
+  const snapshot = async (): Promise<LabSnapshot> => ({
+    equipment: await store.list<Equipment>(`${DATA}/equipment`),
+    bookings: await store.list<Booking>(`${DATA}/bookings`),
+    settings,
+    blackouts: [],
+  });
+  const book = async (actor: Actor, start: Date, end: Date, equipment = microscope) =>
+    service.createBookings(actor, await snapshot(), { equipment, start, end, recurrence: once, overrideQuotas: false, skipConflicts: false });
+  const bookingsOf = async (userId: string) => (await store.list<Booking>(`${DATA}/bookings`)).filter(b => b.userId === userId);
+
+  it('creates a booking, its schedule slot, a notification and an audit entry', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+
+    const [booking] = await bookingsOf('alice');
+    expect(booking).toMatchObject({ equipmentId: 'microscope', status: 'booked', userDisplayName: 'Alice' });
+    expect(booking.startDate.toDate()).toEqual(at('10:00'));
+    const schedule = await store.get<EquipmentSchedule>(`${DATA}/schedules/microscope`);
+    expect(schedule).toMatchObject({ bookingId: booking.id, updatedAt: booking.updatedAt });
+    expect(schedule?.slots.map(slot => slot.bookingId)).toEqual([booking.id]);
+    expect(await store.list<BookingNotification>(`artifacts/${APP_ID}/notifications`)).toMatchObject([{ type: 'bookingConfirmed', userId: 'alice' }]);
+    expect(await store.list(`artifacts/${APP_ID}/auditLog`)).toMatchObject([{ action: 'created', actorId: 'alice' }]);
+  });
+
+  it('refuses a booking that overlaps another one', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+
+    await expect(book(bob, at('10:30'), at('11:30'))).rejects.toBeInstanceOf(BookingConflictError);
+    expect(await bookingsOf('bob')).toEqual([]);
+    await book(bob, at('11:00'), at('12:00'));
+    expect(await bookingsOf('bob')).toHaveLength(1);
+  });
+
+  it('books the first waiting request when a booking is cancelled', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    await service.joinWaitlist(bob, [], microscope, at('10:00'), at('11:00'));
+    const [booking] = await bookingsOf('alice');
+
+    await service.cancelBooking(alice, await snapshot(), booking, 'occurrence');
+
+    expect((await bookingsOf('alice'))[0].status).toBe('cancelled');
+    const [promoted] = await bookingsOf('bob');
+    const [entry] = await store.list<WaitlistEntry>(`${DATA}/waitlist`);
+    expect(promoted).toMatchObject({ status: 'booked', waitlistEntryId: entry.id });
+    expect(entry).toMatchObject({ status: 'promoted', bookingId: promoted.id });
+    const schedule = await store.get<EquipmentSchedule>(`${DATA}/schedules/microscope`);
+    expect(schedule?.slots.map(slot => slot.bookingId)).toEqual([booking.id, promoted.id]);
+    const notifications = await store.list<BookingNotification>(`artifacts/${APP_ID}/notifications`);
+    expect(notifications).toContainEqual(expect.objectContaining({ type: 'waitlistPromoted', userId: 'bob', bookingId: promoted.id }));
+  });
+
+  it('leaves waiting requests alone when the device cannot take them', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    await service.joinWaitlist(bob, [], microscope, at('10:00'), at('11:00'));
+    const [booking] = await bookingsOf('alice');
+    const lab = await snapshot();
+
+    await service.cancelBooking(alice, { ...lab, equipment: [{ ...microscope, status: 'maintenance' }] }, booking, 'occurrence');
+
+    expect((await bookingsOf('alice'))[0].status).toBe('cancelled');
+    expect(await bookingsOf('bob')).toEqual([]);
+    expect(await store.list<WaitlistEntry>(`${DATA}/waitlist`)).toMatchObject([{ status: 'waiting' }]);
+  });
+
+  it('records each reschedule in the booking history', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    const [booking] = await bookingsOf('alice');
+
+    await service.rescheduleBooking(alice, await snapshot(), booking, at('13:00'), at('14:00'), microscope);
+
+    const [moved] = await bookingsOf('alice');
+    expect(moved.startDate.toDate()).toEqual(at('13:00'));
+    expect(moved.history).toHaveLength(1);
+    expect(moved.history?.[0]).toMatchObject({ changedBy: 'alice', from: { equipmentId: 'microscope' }, to: { equipmentId: 'microscope' } });
+    expect(moved.history?.[0].from.startDate.toDate()).toEqual(at('10:00'));
+    const schedule = await store.get<EquipmentSchedule>(`${DATA}/schedules/microscope`);
+    expect(schedule?.slots.map(slot => slot.start.toDate())).toEqual([at('10:00'), at('13:00')]);
+  });
+
+  it('frees the slots of cancelled and moved bookings and prunes them later', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    await book(bob, at('12:00'), at('13:00'));
+    const [cancelled] = await bookingsOf('alice');
+    const [moved] = await bookingsOf('bob');
+    await service.cancelBooking(alice, await snapshot(), cancelled, 'occurrence');
+    await service.rescheduleBooking(bob, await snapshot(), moved, at('14:00'), at('15:00'), microscope);
+
+    await book(alice, at('10:00'), at('11:00'));
+    await book(alice, at('12:00'), at('13:00'));
+    await service.pruneSchedules();
+
+    const schedule = await store.get<EquipmentSchedule>(`${DATA}/schedules/microscope`);
+    expect(schedule?.slots.map(slot => slot.start.toDate())).toEqual([at('14:00'), at('10:00'), at('12:00')]);
+  });
+
+  it('lets a lab manager approve or reject pending bookings on restricted equipment', async () => {
+    await book(alice, at('10:00'), at('11:00'), confocal);
+    await book(bob, at('12:00'), at('13:00'), confocal);
+    const [pending] = await bookingsOf('alice');
+    const [other] = await bookingsOf('bob');
+    expect([pending.status, other.status]).toEqual(['pending', 'pending']);
+
+    await service.approveBooking(maria, await snapshot(), pending);
+    await expect(service.rejectBooking(maria, await snapshot(), other, ' ')).rejects.toBeInstanceOf(BookingRuleError);
+    await service.rejectBooking(maria, await snapshot(), other, 'Not trained');
+
+    expect((await bookingsOf('alice'))[0]).toMatchObject({ status: 'booked', reviewedBy: 'maria' });
+    expect((await bookingsOf('bob'))[0]).toMatchObject({ status: 'rejected', rejectionReason: 'Not trained', reviewedBy: 'maria' });
+    expect(await store.list(`artifacts/${APP_ID}/auditLog`)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ action: 'approved', actorId: 'maria' }),
+      expect.objectContaining({ action: 'rejected', actorId: 'maria' }),
+    ]));
+  });
+
+  it('refuses bookings past the quota unless a lab manager overrides it', async () => {
+    const limited = { ...settings, quotas: { member: { ...NO_QUOTA, maxActiveBookings: 1 }, labManager: { ...NO_QUOTA, maxActiveBookings: 1 } } };
+    const request = (start: Date, end: Date, overrideQuotas: boolean) => ({ equipment: microscope, start, end, recurrence: once, overrideQuotas, skipConflicts: false });
+    const lab = async () => ({ ...await snapshot(), settings: limited });
+    await service.createBookings(alice, await lab(), request(at('09:00'), at('10:00'), false));
+    await service.createBookings(maria, await lab(), request(at('10:00'), at('11:00'), false));
+
+    await expect(service.createBookings(alice, await lab(), request(at('12:00'), at('13:00'), false))).rejects.toBeInstanceOf(BookingRuleError);
+    await expect(service.createBookings(maria, await lab(), request(at('12:00'), at('13:00'), false))).rejects.toBeInstanceOf(BookingRuleError);
+    await service.createBookings(maria, await lab(), request(at('12:00'), at('13:00'), true));
+    expect(await bookingsOf('alice')).toHaveLength(1);
+    expect((await bookingsOf('maria')).map(b => b.quotaOverriddenBy)).toEqual([undefined, 'maria']);
+  });
+
+  it('refuses bookings from users over the no-show limit', async () => {
+    const lab = await snapshot();
+    const earlier = new Date(Date.now() - 86400000);
+    const noShow: Booking = {
+      id: 'missed', equipmentId: 'microscope', equipmentName: 'Microscope', userId: 'alice', userDisplayName: 'Alice',
+      startDate: Timestamp.fromDate(earlier), endDate: Timestamp.fromMillis(earlier.getTime() + 3600000), status: 'noShow', bookedAt: Timestamp.fromDate(earlier),
+    };
+    const restricted = { ...lab, bookings: [noShow], settings: { ...settings, noShowPolicy: { graceMinutes: 15, limit: 1, windowDays: 30 } } };
+
+    await expect(service.createBookings(alice, restricted, { equipment: microscope, start: at('10:00'), end: at('11:00'), recurrence: once, overrideQuotas: false, skipConflicts: false }))
+      .rejects.toBeInstanceOf(BookingRuleError);
+    await service.createBookings(alice, { ...restricted, bookings: [{ ...noShow, noShowExcused: true }] },
+      { equipment: microscope, start: at('10:00'), end: at('11:00'), recurrence: once, overrideQuotas: false, skipConflicts: false });
+    expect(await bookingsOf('alice')).toHaveLength(1);
+  });
+
+  it('reports the clashing occurrences of a series, books the rest on request and cancels the series', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    const daily: RecurrenceRule = { ...once, frequency: 'daily', count: 3 };
+    const request = { equipment: microscope, start: at('10:00'), end: at('11:00'), recurrence: daily, overrideQuotas: false, skipConflicts: false };
+
+    const error = await service.createBookings(bob, await snapshot(), request).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(BookingConflictError);
+    expect((error as BookingConflictError).occurrences.map(o => !!o.clash)).toEqual([true, false, false]);
+    expect(await bookingsOf('bob')).toEqual([]);
+
+    await service.createBookings(bob, await snapshot(), { ...request, skipConflicts: true });
+    const series = await bookingsOf('bob');
+    expect(series).toHaveLength(2);
+    expect(new Set(series.map(b => b.seriesId)).size).toBe(1);
+
+    await service.cancelBooking(bob, await snapshot(), series[1], 'series');
+    expect((await bookingsOf('bob')).map(b => b.status)).toEqual(['cancelled', 'cancelled']);
+    expect((await bookingsOf('alice'))[0].status).toBe('booked');
+  });
+
+  it('releases running bookings nobody checked in to, in batches, and leaves the rest', async () => {
+    const now = Date.now();
+    const seed = (id: string, startOffsetMinutes: number, fields: Partial<Booking> = {}) => store.batch(writer => writer.set(`${DATA}/bookings/${id}`, {
+      equipmentId: 'microscope', equipmentName: 'Microscope', userId: 'alice', userDisplayName: 'Alice',
+      startDate: Timestamp.fromMillis(now + startOffsetMinutes * 60000), endDate: Timestamp.fromMillis(now + (startOffsetMinutes + 60) * 60000),
+      status: 'booked', bookedAt: Timestamp.fromMillis(now - 86400000), ...fields,
+    }));
+    // More overdue bookings than fit in one batch; overlaps do not matter to the scan.
+    for (let i = 0; i < 55; i++) await seed(`overdue${i}`, -30);
+    await seed('withinGrace', -5);
+    await seed('checkedIn', -30, { checkedInAt: Timestamp.fromMillis(now - 20 * 60000) });
+    await seed('ended', -24 * 60);
+
+    await service.releaseNoShows({ id: 'system', name: 'System', role: 'admin' });
+
+    const bookings = await store.list<Booking>(`${DATA}/bookings`);
+    expect(bookings.filter(b => b.status === 'noShow').map(b => b.id).sort()).toEqual(Array.from({ length: 55 }, (_, i) => `overdue${i}`).sort());
+    expect(bookings.filter(b => b.status === 'booked').map(b => b.id).sort()).toEqual(['checkedIn', 'ended', 'withinGrace']);
+    const notifications = await store.list<BookingNotification>(`artifacts/${APP_ID}/notifications`);
+    expect(notifications.every(n => n.type === 'bookingNoShow' && n.userId === 'alice')).toBe(true);
+    expect(notifications.flatMap(n => n.slots)).toHaveLength(55);
+  });
+
+  it('moves bookings that fit onto the target when equipment is archived and cancels the rest', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    await book(bob, at('12:00'), at('13:00'));
+    await book(maria, at('12:30'), at('13:30'), spare);
+    const [moving] = await bookingsOf('alice');
+
+    await expect(service.archiveEquipment(maria, await snapshot(), microscope, spare, '')).rejects.toThrow();
+    await service.archiveEquipment(maria, await snapshot(), microscope, spare, 'Replaced');
+
+    expect((await store.get<Equipment>(`${DATA}/equipment/microscope`))?.archivedAt).toBeInstanceOf(Timestamp);
+    const [moved] = await bookingsOf('alice');
+    expect(moved).toMatchObject({ equipmentId: 'spare', status: 'booked' });
+    expect(moved.history?.[0]).toMatchObject({ changedBy: 'maria', from: { equipmentId: 'microscope' }, to: { equipmentId: 'spare' } });
+    expect((await bookingsOf('bob'))[0]).toMatchObject({ status: 'cancelled', cancellationReason: 'Replaced' });
+    const schedule = await store.get<EquipmentSchedule>(`${DATA}/schedules/spare`);
+    expect(schedule?.slots.map(slot => slot.bookingId)).toContain(moving.id);
+  });
+
+  it('sends bookings moved onto restricted equipment back for approval and cancels those the target cannot take', async () => {
+    await book(alice, at('10:00'), at('11:00'));
+    await book(bob, at('12:00'), at('13:00'));
+    const lab = await snapshot();
+    const closedEarly = { ...confocal, openingHours: DEFAULT_LAB_SETTINGS.openingHours.map(() => ({ open: '08:00', close: '12:00' })) };
+
+    await service.archiveEquipment(maria, { ...lab, equipment: [...lab.equipment.filter(e => e.id !== 'confocal'), closedEarly] }, microscope, closedEarly, 'Closed');
+
+    expect((await bookingsOf('alice'))[0]).toMatchObject({ equipmentId: 'confocal', status: 'pending' });
+    expect((await bookingsOf('bob'))[0]).toMatchObject({ equipmentId: 'microscope', status: 'cancelled' });
+  });
+});
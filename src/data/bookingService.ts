@@ -0,0 +1,549 @@
+// src/data/bookingService.ts
+//
+// Every read and write of equipment, bookings, the waitlist, blackouts and lab settings. Each
+// change runs in one transaction or batch together with the schedules it affects, the emails it
+// queues and its audit entry. The service checks the booking rules in ./rules before writing;
+// firestore.rules enforces what it can on the server.
+
+import { Timestamp } from 'firebase/firestore';
+import { t } from '../i18n';
+import { auditEvent, blackoutTarget, bookingTarget, equipmentTarget, SETTINGS_TARGET } from './audit';
+import {
+  ACTIVE_STATUSES, DEFAULT_LAB_SETTINGS, MAX_OCCURRENCES, canBook, canManageEquipment, cancellationTargets, equipmentStatusOf, expandOccurrences, findClash, labTimeZoneOf, noShowPolicyOf,
+  overdueBookings, quotaPolicyFor, rangesOverlap, upcomingBookingsOn, validateAvailability, validateBookingRules, validateBookingTimes,
+  validateMove, validateNoShowLimit, validateQuota, validateRecurrence,
+} from './rules';
+import type { Store, StoreTransaction, StoreWriter } from './store';
+import { toDateKey } from './time';
+import type {
+  AuditEntry, AuditEvent, Blackout, Booking, BookingChange, BookingNotification, BookingSlot, BookingStatus, Equipment, EquipmentSchedule,
+  LabSettings, NotificationType, Occurrence, RecurrenceRule, Role, ScheduleSlot, WaitlistEntry,
+} from './types';
+
+// The signed-in user making a change.
+export interface Actor {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+// What the caller has already loaded. Rules that depend on other documents are checked against
+// it, so it should come from live subscriptions.
+export interface LabSnapshot {
+  // Active and archived equipment.
+  equipment: Equipment[];
+  bookings: Booking[];
+  settings: LabSettings;
+  blackouts: Blackout[];
+}
+
+export interface BookingRequest {
+  equipment: Equipment;
+  start: Date;
+  end: Date;
+  recurrence: RecurrenceRule;
+  // Only honoured for lab managers.
+  overrideQuotas: boolean;
+  // Leave out the occurrences of a series that clash instead of failing the whole request.
+  skipConflicts: boolean;
+}
+
+export class BookingConflictError extends Error {
+  readonly occurrences: Occurrence[];
+
+  constructor(occurrences: Occurrence[] = []) {
+    const clashes = occurrences.filter(o => o.clash || o.problem).length;
+    super(occurrences.length > 1
+      ? t('service.occurrencesClash', clashes, occurrences.length)
+      : t('service.slotTaken'));
+    this.name = 'BookingConflictError';
+    this.occurrences = occurrences;
+  }
+}
+
+// A request the booking rules refuse; the message says why and is meant for the user.
+export class BookingRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookingRuleError';
+  }
+}
+
+// No-show releases per transaction. Each release also writes an audit entry, a notification
+// and possibly a waitlist booking, and a transaction takes at most 500 writes.
+const NO_SHOW_BATCH_SIZE = 50;
+
+// One notification per user and device, listing every affected slot.
+const toNotifications = (type: NotificationType, bookings: Booking[], detail?: string): BookingNotification[] => {
+  const groups = new Map<string, Booking[]>();
+  bookings.forEach(b => groups.set(`${b.userId}|${b.equipmentName}`, [...(groups.get(`${b.userId}|${b.equipmentName}`) ?? []), b]));
+  const createdAt = Timestamp.now();
+  return [...groups.values()].map(group => ({
+    type,
+    userId: group[0].userId,
+    equipmentName: group[0].equipmentName,
+    slots: group.map(b => ({ start: b.startDate, end: b.endDate })),
+    ...(type === 'bookingConfirmed' || type === 'waitlistPromoted' ? { bookingStatus: group[0].status } : {}),
+    ...(type === 'waitlistPromoted' ? { bookingId: group[0].id } : {}),
+    ...(detail ? { detail } : {}),
+    status: 'queued',
+    createdAt,
+  }));
+};
+
+export const createBookingService = (store: Store, appId: string) => {
+  const dataPath = `artifacts/${appId}/public/data`;
+  const paths = {
+    equipment: `${dataPath}/equipment`,
+    bookings: `${dataPath}/bookings`,
+    schedules: `${dataPath}/schedules`,
+    waitlist: `${dataPath}/waitlist`,
+    blackouts: `${dataPath}/blackouts`,
+    settings: `${dataPath}/settings/lab`,
+    notifications: `artifacts/${appId}/notifications`,
+    auditLog: `artifacts/${appId}/auditLog`,
+  };
+  const newPath = (collectionPath: string) => `${collectionPath}/${store.newId(collectionPath)}`;
+
+  const queueNotifications = (writer: StoreWriter, notifications: BookingNotification[]) => {
+    notifications.forEach(notification => writer.set(newPath(paths.notifications), notification));
+  };
+  const recordAudit = (writer: StoreWriter, actor: Actor, events: AuditEvent[]) => {
+    events.forEach(event => writer.set(newPath(paths.auditLog), { ...event, actorId: actor.id, actorName: actor.name, at: store.serverTime() }));
+  };
+  const commitWithAudit = (actor: Actor, write: (writer: StoreWriter) => void, events: AuditEvent[]) => store.batch(writer => {
+    write(writer);
+    recordAudit(writer, actor, events);
+  });
+
+  // Bookings made before schedules existed seed the schedule the first time it is written.
+  const loadSeedSlots = async (equipmentId: string): Promise<ScheduleSlot[]> => {
+    const existing = await store.list<Booking>(paths.bookings, { where: [['equipmentId', '==', equipmentId], ['status', 'in', ACTIVE_STATUSES]] });
+    return existing.map(b => ({ bookingId: b.id, start: b.startDate, end: b.endDate }));
+  };
+
+  // The slots that still hold their range, out of those that have not ended and overlap one of
+  // ranges (all of them without ranges). Members can only add slots, so cancelled and moved
+  // bookings leave theirs behind until pruneSchedules drops them; each candidate's booking is
+  // read inside the transaction, so this must run before the caller's writes.
+  const liveSlots = async (transaction: StoreTransaction, equipmentId: string, slots: ScheduleSlot[], ranges?: { start: Date; end: Date }[]) => {
+    const now = Date.now();
+    const candidates = slots.filter(slot => slot.end.toMillis() > now
+      && (!ranges || ranges.some(range => rangesOverlap(range.start, range.end, slot.start.toDate(), slot.end.toDate()))));
+    const bookings = await Promise.all(candidates.map(slot => transaction.get<Omit<Booking, 'id'>>(`${paths.bookings}/${slot.bookingId}`)));
+    return candidates.filter((slot, i) => {
+      const booking = bookings[i];
+      return !!booking && ACTIVE_STATUSES.includes(booking.status) && booking.equipmentId === equipmentId
+        && booking.startDate.isEqual(slot.start) && booking.endDate.isEqual(slot.end);
+    });
+  };
+
+  // Waiting entries for the given equipment, oldest first. Transactions cannot run queries,
+  // so these are loaded beforehand and re-read inside the transaction.
+  const loadWaitingEntries = async (equipmentIds: string[]): Promise<WaitlistEntry[]> => {
+    const entries = await store.list<WaitlistEntry>(paths.waitlist, { where: [['equipmentId', 'in', equipmentIds], ['status', '==', 'waiting']] });
+    return entries.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  };
+
+  // Books every waiting entry whose range the released bookings leave entirely free, inside the
+  // caller's transaction, adding the new bookings to the schedule. Must run before the caller's
+  // writes, which must release the bookings; their own slots go stale with that.
+  const releaseSlots = async (transaction: StoreTransaction, actor: Actor, lab: LabSnapshot, released: Booking[], waiting: WaitlistEntry[]) => {
+    const releasedIds = new Set(released.map(b => b.id));
+    const equipmentIds = [...new Set(released.map(b => b.equipmentId))];
+    const schedules = await Promise.all(equipmentIds.map(id => transaction.get<EquipmentSchedule>(`${paths.schedules}/${id}`)));
+    const entries = await Promise.all(waiting.map(entry => transaction.get<WaitlistEntry>(`${paths.waitlist}/${entry.id}`)));
+    const taken = await Promise.all(equipmentIds.map((equipmentId, i) => liveSlots(transaction, equipmentId, schedules[i]?.slots ?? [],
+      waiting.filter(entry => entry.equipmentId === equipmentId).map(entry => ({ start: entry.startDate.toDate(), end: entry.endDate.toDate() })))));
+    const now = Timestamp.now();
+    const timeZone = labTimeZoneOf(lab.settings);
+    const noShowPolicy = noShowPolicyOf(lab.settings);
+    // The waitlisted user's other active bookings, including those promoted here.
+    const counted = lab.bookings
+      .filter(b => ACTIVE_STATUSES.includes(b.status) && !releasedIds.has(b.id))
+      .map(b => ({ userId: b.userId, equipmentId: b.equipmentId, start: b.startDate.toDate(), end: b.endDate.toDate() }));
+
+    equipmentIds.forEach((equipmentId, i) => {
+      const schedule = schedules[i];
+      const equipment = lab.equipment.find(e => e.id === equipmentId);
+      // Without a schedule there is no reliable record of what else is booked, and a device that
+      // cannot be booked cannot take anyone either, so nobody is promoted.
+      if (!schedule || !equipment || equipmentStatusOf(equipment) !== 'available' || equipment.archivedAt) return;
+      const slots = taken[i].filter(slot => !releasedIds.has(slot.bookingId));
+      const promoted: ScheduleSlot[] = [];
+      // Other users' profiles are private, so the waitlisted user gets the member quota.
+      const quotaPolicy = quotaPolicyFor(lab.settings, equipment, 'member');
+      waiting.forEach((entry, j) => {
+        const start = entry.startDate.toDate();
+        const end = entry.endDate.toDate();
+        const freed = released.some(b => b.equipmentId === equipmentId && rangesOverlap(start, end, b.startDate.toDate(), b.endDate.toDate()));
+        if (entry.equipmentId !== equipmentId || entries[j]?.status !== 'waiting' || !freed || entry.startDate.toMillis() <= now.toMillis()) return;
+        if (findClash(slots, start, end)) return;
+        // The promoted booking must pass the checks a new booking by that user would.
+        const own = counted.filter(b => b.userId === entry.userId && b.equipmentId === equipmentId);
+        const problem = validateAvailability(equipment, start, end, lab.settings, lab.blackouts)
+          ?? validateQuota(equipment, quotaPolicy, own, start, end, now.toDate(), timeZone)
+          ?? validateNoShowLimit(lab.bookings, entry.userId, noShowPolicy, now.toMillis());
+        if (problem) return;
+        counted.push({ userId: entry.userId, equipmentId, start, end });
+        const bookingId = store.newId(paths.bookings);
+        slots.push({ bookingId, start: entry.startDate, end: entry.endDate });
+        promoted.push({ bookingId, start: entry.startDate, end: entry.endDate });
+        const booking = {
+          equipmentId,
+          equipmentName: entry.equipmentName,
+          userId: entry.userId,
+          userDisplayName: entry.userDisplayName,
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          status: equipment.requiresApproval ? 'pending' : 'booked',
+          bookedAt: now,
+          waitlistEntryId: entry.id,
+        } satisfies Omit<Booking, 'id'>;
+        transaction.set(`${paths.bookings}/${bookingId}`, { ...booking, updatedAt: store.serverTime() });
+        transaction.update(`${paths.waitlist}/${entry.id}`, { status: 'promoted', promotedAt: now, bookingId });
+        queueNotifications(transaction, toNotifications('waitlistPromoted', [{ ...booking, id: bookingId }]));
+        recordAudit(transaction, actor, [auditEvent('created', bookingTarget({ ...booking, id: bookingId }, timeZone), {}, booking)]);
+      });
+      if (promoted.length === 0) return;
+      transaction.update(`${paths.schedules}/${equipmentId}`, { slots: [...schedule.slots, ...promoted], updatedAt: store.serverTime(), bookingId: promoted[0].bookingId });
+    });
+  };
+
+  // --- Subscriptions ---
+  const watchEquipment = (onChange: (equipment: Equipment[]) => void) => store.watch<Equipment>(paths.equipment, {}, onChange);
+  const watchBookings = (onChange: (bookings: Booking[]) => void) => store.watch<Booking>(paths.bookings, {}, onChange);
+  const watchUserBookings = (userId: string, onChange: (bookings: Booking[]) => void) =>
+    store.watch<Booking>(paths.bookings, { where: [['userId', '==', userId]] }, bookings => onChange(bookings.sort((a, b) => a.startDate.toMillis() - b.startDate.toMillis())));
+  const watchSettings = (onChange: (settings: Partial<LabSettings> | undefined) => void) => store.watchDocument<Partial<LabSettings>>(paths.settings, onChange);
+  const watchBlackouts = (onChange: (blackouts: Blackout[]) => void) =>
+    store.watch<Blackout>(paths.blackouts, {}, blackouts => onChange(blackouts.sort((a, b) => a.start.toMillis() - b.start.toMillis())));
+  // Every entry when userId is null, which only lab managers may read.
+  const watchWaitlist = (userId: string | null, onChange: (entries: WaitlistEntry[]) => void) =>
+    store.watch<WaitlistEntry>(paths.waitlist, userId ? { where: [['userId', '==', userId]] } : {}, entries => onChange(entries.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())));
+  // Entries from the start of from up to the end of to, newest first.
+  const watchAuditLog = (from: Date, to: Date, onChange: (entries: AuditEntry[]) => void, onError: (error: Error) => void) =>
+    store.watch<AuditEntry>(paths.auditLog, { where: [['at', '>=', Timestamp.fromDate(from)], ['at', '<', Timestamp.fromDate(to)]], orderBy: ['at', 'desc'] }, onChange, onError);
+
+  // --- Bookings ---
+  const createBookings = async (actor: Actor, lab: LabSnapshot, request: BookingRequest) => {
+    const { equipment, start, end, recurrence, skipConflicts } = request;
+    if (!canBook(actor.role)) throw new BookingRuleError(t('service.cannotBook'));
+    const now = new Date();
+    const timeZone = labTimeZoneOf(lab.settings);
+    const problem = validateNoShowLimit(lab.bookings, actor.id, noShowPolicyOf(lab.settings), now.getTime())
+      ?? validateBookingTimes(start, end, now)
+      ?? validateBookingRules(equipment, start, end, now, timeZone)
+      ?? validateRecurrence(recurrence, toDateKey(start, timeZone));
+    if (problem) throw new BookingRuleError(problem);
+
+    const quotaPolicy = quotaPolicyFor(lab.settings, equipment, actor.role);
+    const quotaOverridden = canManageEquipment(actor.role) && request.overrideQuotas;
+    // Earlier occurrences of this request count towards the quota of later ones.
+    const counted = lab.bookings
+      .filter(b => b.userId === actor.id && b.equipmentId === equipment.id && ACTIVE_STATUSES.includes(b.status))
+      .map(b => ({ start: b.startDate.toDate(), end: b.endDate.toDate() }));
+    const occurrences = expandOccurrences(start, end, recurrence, timeZone).map(o => {
+      const occurrenceProblem = validateAvailability(equipment, o.start, o.end, lab.settings, lab.blackouts)
+        ?? (quotaOverridden ? null : validateQuota(equipment, quotaPolicy, counted, o.start, o.end, now, timeZone));
+      if (!occurrenceProblem) counted.push(o);
+      return { ...o, problem: occurrenceProblem ?? undefined };
+    });
+    if (occurrences.length > MAX_OCCURRENCES) throw new BookingRuleError(t('service.tooManyOccurrences', MAX_OCCURRENCES));
+    if (occurrences.length === 1 && occurrences[0].problem) throw new BookingRuleError(occurrences[0].problem);
+
+    const schedulePath = `${paths.schedules}/${equipment.id}`;
+    const seedSlots = await loadSeedSlots(equipment.id);
+    const bookingIds = occurrences.map(() => store.newId(paths.bookings));
+    const bookingTemplate = {
+      equipmentId: equipment.id,
+      equipmentName: equipment.name,
+      userId: actor.id,
+      userDisplayName: actor.name,
+      status: equipment.requiresApproval ? 'pending' : 'booked',
+      bookedAt: Timestamp.now(),
+      ...(occurrences.length > 1 ? { seriesId: bookingIds[0] } : {}),
+      ...(quotaOverridden ? { quotaOverriddenBy: actor.id } : {}),
+    } satisfies Omit<Booking, 'id' | 'startDate' | 'endDate'>;
+    await store.runTransaction(async (transaction) => {
+      const schedule = await transaction.get<EquipmentSchedule>(schedulePath);
+      const slots = schedule ? schedule.slots : seedSlots;
+      const taken = await liveSlots(transaction, equipment.id, slots, occurrences.filter(o => !o.problem));
+      const newSlots: ScheduleSlot[] = [];
+      const checked = occurrences.map((occurrence, index) => {
+        if (occurrence.problem) return occurrence;
+        const clash = findClash([...taken, ...newSlots], occurrence.start, occurrence.end);
+        if (!clash) newSlots.push({ bookingId: bookingIds[index], start: Timestamp.fromDate(occurrence.start), end: Timestamp.fromDate(occurrence.end) });
+        return { ...occurrence, clash };
+      });
+      if (checked.some(o => o.clash || o.problem) && (!skipConflicts || newSlots.length === 0)) {
+        throw new BookingConflictError(checked);
+      }
+      transaction.set(schedulePath, { slots: [...slots, ...newSlots], updatedAt: store.serverTime(), bookingId: newSlots[0].bookingId });
+      const created = newSlots.map(slot => ({ ...bookingTemplate, id: slot.bookingId, startDate: slot.start, endDate: slot.end }));
+      created.forEach(({ id, ...booking }) => transaction.set(`${paths.bookings}/${id}`, { ...booking, updatedAt: store.serverTime() }));
+      queueNotifications(transaction, toNotifications('bookingConfirmed', created));
+      recordAudit(transaction, actor, created.map(booking => auditEvent('created', bookingTarget(booking, timeZone), {}, booking)));
+    });
+  };
+
+  // Moves a booking to a new time and/or piece of equipment in one transaction, running the
+  // same checks as a new booking.
+  const rescheduleBooking = async (actor: Actor, lab: LabSnapshot, booking: Booking, start: Date, end: Date, equipment: Equipment) => {
+    const isManager = canManageEquipment(actor.role);
+    if (!isManager && (booking.userId !== actor.id || !canBook(actor.role))) throw new BookingRuleError(t('service.notYourBooking'));
+    if (!ACTIVE_STATUSES.includes(booking.status)) throw new BookingRuleError(t('service.notChangeable'));
+    const now = new Date();
+    const timeZone = labTimeZoneOf(lab.settings);
+    // Lab managers move bookings past the quotas; owners stay within their own.
+    const others = lab.bookings
+      .filter(b => b.id !== booking.id && b.userId === booking.userId && b.equipmentId === equipment.id && ACTIVE_STATUSES.includes(b.status))
+      .map(b => ({ start: b.startDate.toDate(), end: b.endDate.toDate() }));
+    const problem = validateBookingTimes(start, end, now)
+      ?? validateBookingRules(equipment, start, end, now, timeZone)
+      ?? validateAvailability(equipment, start, end, lab.settings, lab.blackouts)
+      ?? (isManager ? null : validateQuota(equipment, quotaPolicyFor(lab.settings, equipment, actor.role), others, start, end, now, timeZone));
+    if (problem) throw new BookingRuleError(problem);
+
+    const newSchedulePath = `${paths.schedules}/${equipment.id}`;
+    const movesEquipment = booking.equipmentId !== equipment.id;
+    const seedSlots = await loadSeedSlots(equipment.id);
+    // Owners moving a booking onto restricted equipment need a fresh approval.
+    const status: BookingStatus = equipment.requiresApproval && !isManager && (movesEquipment || booking.status === 'booked') ? 'pending' : booking.status;
+    await store.runTransaction(async (transaction) => {
+      const newSchedule = await transaction.get<EquipmentSchedule>(newSchedulePath);
+      const slots = newSchedule ? newSchedule.slots : seedSlots;
+      // The booking's current slot goes stale with this write, wherever it moves.
+      const taken = (await liveSlots(transaction, equipment.id, slots, [{ start, end }])).filter(slot => slot.bookingId !== booking.id);
+      if (findClash(taken, start, end)) throw new BookingConflictError();
+      const now = Timestamp.now();
+      const updatedAt = store.serverTime();
+      transaction.set(newSchedulePath, { slots: [...slots, { bookingId: booking.id, start: Timestamp.fromDate(start), end: Timestamp.fromDate(end) }], updatedAt, bookingId: booking.id });
+      const to: BookingSlot = { equipmentId: equipment.id, equipmentName: equipment.name, startDate: Timestamp.fromDate(start), endDate: Timestamp.fromDate(end) };
+      const change: BookingChange = {
+        changedAt: now,
+        changedBy: actor.id,
+        changedByName: actor.name,
+        from: { equipmentId: booking.equipmentId, equipmentName: booking.equipmentName, startDate: booking.startDate, endDate: booking.endDate },
+        to,
+      };
+      transaction.update(`${paths.bookings}/${booking.id}`, { ...to, status, updatedAt, history: store.arrayUnion(change) });
+      recordAudit(transaction, actor, [auditEvent('rescheduled', bookingTarget(booking, timeZone), booking, { ...to, status })]);
+    });
+  };
+
+  // 'series' cancels every upcoming active occurrence of a recurring booking.
+  const cancelBooking = async (actor: Actor, lab: LabSnapshot, booking: Booking, scope: 'occurrence' | 'series') => {
+    const targets = cancellationTargets(lab.bookings, booking, scope, Date.now());
+    const waiting = await loadWaitingEntries([...new Set(targets.map(b => b.equipmentId))]);
+    await store.runTransaction(async (transaction) => {
+      await releaseSlots(transaction, actor, lab, targets, waiting);
+      const cancelledAt = Timestamp.now();
+      targets.forEach(b => transaction.update(`${paths.bookings}/${b.id}`, { status: 'cancelled', cancelledAt, updatedAt: store.serverTime() }));
+      queueNotifications(transaction, toNotifications('bookingCancelled', targets));
+      recordAudit(transaction, actor, targets.map(b => auditEvent('cancelled', bookingTarget(b, labTimeZoneOf(lab.settings)), b, { status: 'cancelled', cancelledAt })));
+    });
+  };
+
+  const approveBooking = (actor: Actor, lab: LabSnapshot, booking: Booking) => {
+    const review = { status: 'booked', reviewedBy: actor.id, reviewedByName: actor.name, reviewedAt: Timestamp.now() };
+    return commitWithAudit(actor, writer => writer.update(`${paths.bookings}/${booking.id}`, review), [auditEvent('approved', bookingTarget(booking, labTimeZoneOf(lab.settings)), booking, review)]);
+  };
+
+  const rejectBooking = async (actor: Actor, lab: LabSnapshot, booking: Booking, reason: string) => {
+    if (!reason.trim()) throw new BookingRuleError(t('service.rejectionReasonRequired'));
+    const waiting = await loadWaitingEntries([booking.equipmentId]);
+    await store.runTransaction(async (transaction) => {
+      await releaseSlots(transaction, actor, lab, [booking], waiting);
+      const review = { status: 'rejected', rejectionReason: reason.trim(), reviewedBy: actor.id, reviewedByName: actor.name, reviewedAt: Timestamp.now() };
+      transaction.update(`${paths.bookings}/${booking.id}`, { ...review, updatedAt: store.serverTime() });
+      recordAudit(transaction, actor, [auditEvent('rejected', bookingTarget(booking, labTimeZoneOf(lab.settings)), booking, review)]);
+    });
+  };
+
+  // Check-in and check-out are stamped with the server time, so owners cannot backdate them.
+  const checkIn = (actor: Actor, lab: LabSnapshot, booking: Booking) => commitWithAudit(actor,
+    writer => writer.update(`${paths.bookings}/${booking.id}`, { checkedInAt: store.serverTime() }),
+    [auditEvent('checkedIn', bookingTarget(booking, labTimeZoneOf(lab.settings)), booking, { checkedInAt: store.serverTime() })]);
+  const checkOut = (actor: Actor, lab: LabSnapshot, booking: Booking) => commitWithAudit(actor,
+    writer => writer.update(`${paths.bookings}/${booking.id}`, { checkedOutAt: store.serverTime() }),
+    [auditEvent('checkedOut', bookingTarget(booking, labTimeZoneOf(lab.settings)), booking, { checkedOutAt: store.serverTime() })]);
+
+  // Marks running confirmed bookings that were not checked in within the grace window as
+  // no-shows and frees their slots, so waitlisted requests can take them. Each transaction
+  // covers at most NO_SHOW_BATCH_SIZE bookings of one device, to stay well inside Firestore's
+  // write limit. Run on a timer by scripts/notification-worker.ts, so it loads what it needs itself.
+  const releaseNoShows = async (actor: Actor) => {
+    const settings: LabSettings = { ...DEFAULT_LAB_SETTINGS, ...await store.get<Partial<LabSettings>>(paths.settings) };
+    const policy = noShowPolicyOf(settings);
+    const now = Date.now();
+    // Promotions check quotas and the no-show limit, so this also loads the active bookings and
+    // the no-shows inside the policy window.
+    const [equipment, bookings, blackouts] = await Promise.all([
+      store.list<Equipment>(paths.equipment),
+      store.list<Booking>(paths.bookings, { where: [['status', 'in', [...ACTIVE_STATUSES, 'noShow']], ['endDate', '>', Timestamp.fromMillis(now - policy.windowDays * 86400000)]] }),
+      store.list<Blackout>(paths.blackouts),
+    ]);
+    const lab: LabSnapshot = { equipment, bookings, settings, blackouts };
+    const overdue = overdueBookings(lab.bookings, policy, now);
+    const batches = [...new Set(overdue.map(b => b.equipmentId))].flatMap(equipmentId => {
+      const onDevice = overdue.filter(b => b.equipmentId === equipmentId);
+      return Array.from({ length: Math.ceil(onDevice.length / NO_SHOW_BATCH_SIZE) }, (_, i) => onDevice.slice(i * NO_SHOW_BATCH_SIZE, (i + 1) * NO_SHOW_BATCH_SIZE));
+    });
+    for (const candidates of batches) {
+      // Re-read inside the transaction, so entries promoted by an earlier batch are skipped.
+      const waiting = await loadWaitingEntries([candidates[0].equipmentId]);
+      await store.runTransaction(async (transaction) => {
+        const current = await Promise.all(candidates.map(b => transaction.get<Booking>(`${paths.bookings}/${b.id}`)));
+        // Another worker may have released them, or the owner checked in, since they were listed.
+        const released = candidates.filter((_, i) => current[i]?.status === 'booked' && !current[i]?.checkedInAt);
+        if (released.length === 0) return;
+        await releaseSlots(transaction, actor, lab, released, waiting);
+        const noShowAt = Timestamp.now();
+        released.forEach(b => transaction.update(`${paths.bookings}/${b.id}`, { status: 'noShow', noShowAt, updatedAt: store.serverTime() }));
+        queueNotifications(transaction, toNotifications('bookingNoShow', released));
+        recordAudit(transaction, actor, released.map(b => auditEvent('noShow', bookingTarget(b, labTimeZoneOf(lab.settings)), b, { status: 'noShow', noShowAt })));
+      });
+    }
+  };
+
+  const setNoShowExcused = (actor: Actor, lab: LabSnapshot, booking: Booking, excused: boolean) => commitWithAudit(actor,
+    writer => writer.update(`${paths.bookings}/${booking.id}`, { noShowExcused: excused, updatedAt: Timestamp.now() }),
+    [auditEvent('updated', bookingTarget(booking, labTimeZoneOf(lab.settings)), booking, { noShowExcused: excused })]);
+
+  // --- Waitlist ---
+  // entries are the actor's own entries, to refuse duplicates.
+  const joinWaitlist = async (actor: Actor, entries: WaitlistEntry[], equipment: Equipment, start: Date, end: Date) => {
+    const duplicate = entries.some(entry => entry.userId === actor.id && entry.status === 'waiting' && entry.equipmentId === equipment.id && entry.startDate.toMillis() === start.getTime() && entry.endDate.toMillis() === end.getTime());
+    if (duplicate) throw new BookingRuleError(t('service.alreadyWaitlisted'));
+    await store.batch(writer => writer.set(newPath(paths.waitlist), {
+      equipmentId: equipment.id,
+      equipmentName: equipment.name,
+      userId: actor.id,
+      userDisplayName: actor.name,
+      startDate: Timestamp.fromDate(start),
+      endDate: Timestamp.fromDate(end),
+      status: 'waiting',
+      createdAt: Timestamp.now(),
+    } satisfies Omit<WaitlistEntry, 'id'>));
+  };
+  const leaveWaitlist = (entry: WaitlistEntry) => store.batch(writer => writer.update(`${paths.waitlist}/${entry.id}`, { status: 'withdrawn' }));
+
+  // --- Equipment ---
+  // IDs are chosen up front so that a photo can be uploaded under the new equipment's path.
+  const newEquipmentId = () => store.newId(paths.equipment);
+
+  const addEquipment = (actor: Actor, equipmentId: string, fields: Omit<Equipment, 'id'>) => {
+    const equipment = { ...fields, createdAt: Timestamp.now() };
+    return commitWithAudit(actor, writer => writer.set(`${paths.equipment}/${equipmentId}`, equipment), [auditEvent('created', equipmentTarget({ id: equipmentId, name: equipment.name }), {}, equipment)]);
+  };
+
+  // Owners of upcoming bookings are told that the equipment changed.
+  const updateEquipment = (actor: Actor, lab: LabSnapshot, equipment: Equipment, changes: Partial<Omit<Equipment, 'id'>>) => commitWithAudit(actor, writer => {
+    writer.update(`${paths.equipment}/${equipment.id}`, { ...changes, updatedAt: Timestamp.now() });
+    queueNotifications(writer, toNotifications('equipmentChanged', upcomingBookingsOn(lab.bookings, equipment.id, Date.now())));
+  }, [auditEvent('updated', equipmentTarget(equipment), equipment, changes)]);
+
+  // Archives the equipment and, in the same transaction, cancels its future bookings or moves
+  // them to target. Bookings that clash on the target or that it cannot take are cancelled
+  // instead, which needs a reason. Moves onto equipment that requires approval need it again.
+  const archiveEquipment = async (actor: Actor, lab: LabSnapshot, equipment: Equipment, target: Equipment | null, reason: string) => {
+    const affected = upcomingBookingsOn(lab.bookings, equipment.id, Date.now());
+    const waiting = await loadWaitingEntries([equipment.id]);
+    const targetSeed = target ? await loadSeedSlots(target.id) : [];
+    const timeZone = labTimeZoneOf(lab.settings);
+    const movable = target ? affected.filter(b => !validateMove(target, b, lab.settings, lab.blackouts, new Date())) : [];
+    await store.runTransaction(async (transaction) => {
+      const targetSchedule = target ? await transaction.get<EquipmentSchedule>(`${paths.schedules}/${target.id}`) : undefined;
+      const targetSlots = targetSchedule ? targetSchedule.slots : targetSeed;
+      const taken = target ? await liveSlots(transaction, target.id, targetSlots, movable.map(b => ({ start: b.startDate.toDate(), end: b.endDate.toDate() }))) : [];
+      const moved: Booking[] = [];
+      const cancelled: Booking[] = [];
+      affected.forEach(b => {
+        if (movable.includes(b) && !findClash(taken, b.startDate.toDate(), b.endDate.toDate())) {
+          moved.push(b);
+          taken.push({ bookingId: b.id, start: b.startDate, end: b.endDate });
+        } else {
+          cancelled.push(b);
+        }
+      });
+      if (cancelled.length > 0 && !reason) {
+        throw new Error(t('service.archiveReasonRequired', cancelled.length));
+      }
+
+      const now = Timestamp.now();
+      const updatedAt = store.serverTime();
+      transaction.update(`${paths.equipment}/${equipment.id}`, { archivedAt: updatedAt, archivedBy: actor.id, updatedAt });
+      recordAudit(transaction, actor, [auditEvent('archived', equipmentTarget(equipment), equipment, { archivedAt: updatedAt, archivedBy: actor.id })]);
+      transaction.set(`${paths.schedules}/${equipment.id}`, { slots: [], updatedAt });
+      if (target) {
+        transaction.set(`${paths.schedules}/${target.id}`, { slots: [...targetSlots, ...moved.map(b => ({ bookingId: b.id, start: b.startDate, end: b.endDate }))], updatedAt });
+        moved.forEach(b => {
+          const to: BookingSlot = { equipmentId: target.id, equipmentName: target.name, startDate: b.startDate, endDate: b.endDate };
+          const status: BookingStatus = target.requiresApproval ? 'pending' : b.status;
+          const change: BookingChange = { changedAt: now, changedBy: actor.id, changedByName: actor.name, from: { equipmentId: b.equipmentId, equipmentName: b.equipmentName, startDate: b.startDate, endDate: b.endDate }, to };
+          transaction.update(`${paths.bookings}/${b.id}`, { ...to, status, updatedAt, history: store.arrayUnion(change) });
+          recordAudit(transaction, actor, [auditEvent('rescheduled', bookingTarget(b, timeZone), b, { ...to, status })]);
+        });
+        queueNotifications(transaction, toNotifications('bookingMoved', moved.map(b => ({ ...b, equipmentName: target.name })), equipment.name));
+      }
+      cancelled.forEach(b => transaction.update(`${paths.bookings}/${b.id}`, { status: 'cancelled', cancelledAt: now, cancellationReason: reason, updatedAt }));
+      recordAudit(transaction, actor, cancelled.map(b => auditEvent('cancelled', bookingTarget(b, timeZone), b, { status: 'cancelled', cancelledAt: now, cancellationReason: reason })));
+      queueNotifications(transaction, toNotifications('bookingCancelled', cancelled, reason));
+      // Nobody can be promoted onto archived equipment any more.
+      waiting.forEach(entry => transaction.update(`${paths.waitlist}/${entry.id}`, { status: 'withdrawn' }));
+    });
+  };
+
+  // Drops the slots that have ended or that their booking no longer holds. Members can only add
+  // to a schedule, so scripts/notification-worker.ts runs this with admin credentials.
+  const pruneSchedules = async () => {
+    const equipment = await store.list<Equipment>(paths.equipment);
+    for (const { id } of equipment) {
+      await store.runTransaction(async (transaction) => {
+        const schedule = await transaction.get<EquipmentSchedule>(`${paths.schedules}/${id}`);
+        if (!schedule) return;
+        const slots = await liveSlots(transaction, id, schedule.slots);
+        if (slots.length < schedule.slots.length) transaction.update(`${paths.schedules}/${id}`, { slots, updatedAt: store.serverTime() });
+      });
+    }
+  };
+
+  const restoreEquipment = (actor: Actor, equipment: Equipment) => commitWithAudit(actor,
+    writer => writer.update(`${paths.equipment}/${equipment.id}`, { archivedAt: store.deleteField(), archivedBy: store.deleteField(), updatedAt: Timestamp.now() }),
+    [auditEvent('restored', equipmentTarget(equipment), equipment, { archivedAt: null, archivedBy: null })]);
+
+  // --- Settings & Blackouts ---
+  // Saves settings on the equipment with ID scope, or lab-wide when scope is ''. A null value
+  // removes the equipment's own setting.
+  const updateSettings = (actor: Actor, lab: LabSnapshot, scope: string, changes: Record<string, unknown>) => {
+    const updatedAt = Timestamp.now();
+    const equipment = lab.equipment.find(e => e.id === scope);
+    if (equipment) {
+      const update = Object.fromEntries(Object.entries(changes).map(([field, value]) => [field, value ?? store.deleteField()]));
+      return commitWithAudit(actor, writer => writer.update(`${paths.equipment}/${equipment.id}`, { ...update, updatedAt }), [auditEvent('updated', equipmentTarget(equipment), equipment, changes)]);
+    }
+    return commitWithAudit(actor, writer => writer.set(paths.settings, { ...changes, updatedAt }, { merge: true }), [auditEvent('updated', SETTINGS_TARGET, lab.settings, changes)]);
+  };
+
+  const equipmentName = (lab: LabSnapshot, equipmentId: string) => lab.equipment.find(e => e.id === equipmentId)?.name ?? equipmentId;
+
+  const addBlackout = (actor: Actor, lab: LabSnapshot, fields: Pick<Blackout, 'equipmentId' | 'start' | 'end' | 'reason'>) => {
+    const blackoutId = store.newId(paths.blackouts);
+    const blackout = { ...fields, createdBy: actor.id, createdAt: Timestamp.now() };
+    return commitWithAudit(actor, writer => writer.set(`${paths.blackouts}/${blackoutId}`, blackout), [auditEvent('created', blackoutTarget(blackoutId, equipmentName(lab, fields.equipmentId)), {}, blackout)]);
+  };
+  const removeBlackout = (actor: Actor, lab: LabSnapshot, blackout: Blackout) => commitWithAudit(actor,
+    writer => writer.delete(`${paths.blackouts}/${blackout.id}`),
+    [auditEvent('deleted', blackoutTarget(blackout.id, equipmentName(lab, blackout.equipmentId)), blackout, { start: null, end: null, reason: null })]);
+
+  return {
+    watchEquipment, watchBookings, watchUserBookings, watchSettings, watchBlackouts, watchWaitlist, watchAuditLog,
+    createBookings, rescheduleBooking, cancelBooking, approveBooking, rejectBooking, checkIn, checkOut, releaseNoShows, setNoShowExcused,
+    joinWaitlist, leaveWaitlist,
+    newEquipmentId, addEquipment, updateEquipment, archiveEquipment, restoreEquipment, pruneSchedules,
+    updateSettings, addBlackout, removeBlackout,
+  };
+};
+
+export type BookingService = ReturnType<typeof createBookingService>;
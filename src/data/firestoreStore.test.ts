@@ -0,0 +1,156 @@
+// Runs bookingService on createFirestoreStore against the Firestore emulator with firestore.rules
+// loaded, signed in as different users. Skipped unless FIRESTORE_EMULATOR_HOST is set; run it
+// with `npm run test:emulator`.
+
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteApp, initializeApp, type FirebaseApp } from 'firebase/app';
+import { addDoc, collection, connectFirestoreEmulator, doc, getFirestore, serverTimestamp, setDoc, Timestamp, updateDoc, writeBatch } from 'firebase/firestore';
+import { readFileSync } from 'node:fs';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { BookingConflictError, createBookingService, type Actor, type LabSnapshot } from './bookingService';
+import { createFirestoreStore } from './firestoreStore';
+import { DEFAULT_LAB_SETTINGS } from './rules';
+import type { Booking, Equipment, RecurrenceRule, WaitlistEntry } from './types';
+
+const PROJECT_ID = 'demo-booking-rules';
+const APP_ID = 'test';
+const DATA = `artifacts/${APP_ID}/public/data`;
+
+const alice: Actor = { id: 'alice', name: 'Alice', role: 'member' };
+const bob: Actor = { id: 'bob', name: 'Bob', role: 'member' };
+const microscope: Equipment = { id: 'microscope', name: 'Microscope', description: '' };
+const once: RecurrenceRule = { frequency: 'none', interval: 1, weekdays: [], endType: 'count', until: '', count: 1 };
+
+const day = new Date(Date.now() + 7 * 86400000).toISOString().slice(0, 10);
+const at = (time: string) => new Date(`${day}T${time}Z`);
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules with bookingService', { timeout: 30000 }, () => {
+  let testEnv: RulesTestEnvironment;
+  const apps: FirebaseApp[] = [];
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({ projectId: PROJECT_ID, firestore: { rules: readFileSync('firestore.rules', 'utf8') } });
+  });
+  beforeEach(() => testEnv.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    await db.doc(`artifacts/${APP_ID}/users/alice`).set({ role: 'member', displayName: 'Alice' });
+    await db.doc(`artifacts/${APP_ID}/users/bob`).set({ role: 'member', displayName: 'Bob' });
+    await db.doc(`${DATA}/equipment/microscope`).set({ name: microscope.name, description: '' });
+  }));
+  afterEach(() => testEnv.clearFirestore());
+  afterAll(async () => {
+    await Promise.all(apps.map(app => deleteApp(app)));
+    await testEnv.cleanup();
+  });
+
+  // A separate client app per user, so each one sends its own mock ID token.
+  const signIn = (actor: Actor) => {
+    const app = initializeApp({ projectId: PROJECT_ID }, `${actor.id}-${apps.length}`);
+    apps.push(app);
+    const db = getFirestore(app);
+    const [host, port] = process.env.FIRESTORE_EMULATOR_HOST!.split(':');
+    connectFirestoreEmulator(db, host, Number(port), { mockUserToken: { sub: actor.id } });
+    const store = createFirestoreStore(db);
+    const snapshot = async (): Promise<LabSnapshot> => ({
+      equipment: [microscope],
+      bookings: await store.list<Booking>(`${DATA}/bookings`),
+      settings: { ...DEFAULT_LAB_SETTINGS, timeZone: 'UTC' },
+      blackouts: [],
+    });
+    const service = createBookingService(store, APP_ID);
+    const book = async (start: Date, end: Date) =>
+      service.createBookings(actor, await snapshot(), { equipment: microscope, start, end, recurrence: once, overrideQuotas: false, skipConflicts: false });
+    return { db, store, service, snapshot, book };
+  };
+
+  it('accepts the writes of a booking', async () => {
+    const client = signIn(alice);
+    await assertSucceeds(client.book(at('10:00'), at('11:00')));
+    expect(await client.store.list<Booking>(`${DATA}/bookings`)).toMatchObject([{ userId: 'alice', status: 'booked' }]);
+  });
+
+  it('lets only one of two simultaneous requests for the same slot commit', async () => {
+    const first = signIn(alice);
+    const second = signIn(bob);
+    const results = await Promise.allSettled([first.book(at('10:00'), at('11:00')), second.book(at('10:30'), at('11:30'))]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')?.reason).toBeInstanceOf(BookingConflictError);
+    expect(await first.store.list<Booking>(`${DATA}/bookings`)).toHaveLength(1);
+  });
+
+  it('refuses a booking written without its schedule', async () => {
+    const client = signIn(alice);
+    await assertFails(setDoc(doc(client.db, `${DATA}/bookings/direct`), {
+      equipmentId: 'microscope', equipmentName: 'Microscope', userId: 'alice', userDisplayName: 'Alice',
+      startDate: Timestamp.fromDate(at('10:00')), endDate: Timestamp.fromDate(at('11:00')), status: 'booked', bookedAt: Timestamp.now(), updatedAt: serverTimestamp(),
+    }));
+  });
+
+  it('refuses a schedule written without a booking', async () => {
+    const client = signIn(alice);
+    await client.book(at('10:00'), at('11:00'));
+    await assertFails(setDoc(doc(client.db, `${DATA}/schedules/microscope`), { slots: [], updatedAt: serverTimestamp() }));
+  });
+
+  it('refuses a schedule that drops another user\'s slot', async () => {
+    await signIn(alice).book(at('10:00'), at('11:00'));
+    const client = signIn(bob);
+    const startDate = Timestamp.fromDate(at('10:00'));
+    const endDate = Timestamp.fromDate(at('11:00'));
+    const batch = writeBatch(client.db);
+    batch.set(doc(client.db, `${DATA}/bookings/overlap`), {
+      equipmentId: 'microscope', equipmentName: 'Microscope', userId: 'bob', userDisplayName: 'Bob',
+      startDate, endDate, status: 'booked', bookedAt: Timestamp.now(), updatedAt: serverTimestamp(),
+    });
+    batch.set(doc(client.db, `${DATA}/schedules/microscope`), { slots: [{ bookingId: 'overlap', start: startDate, end: endDate }], updatedAt: serverTimestamp(), bookingId: 'overlap' });
+    await assertFails(batch.commit());
+  });
+
+  it('lets a cancellation book and notify another user from the waitlist', async () => {
+    const owner = signIn(alice);
+    const waiting = signIn(bob);
+    await owner.book(at('10:00'), at('11:00'));
+    await waiting.service.joinWaitlist(bob, [], microscope, at('10:00'), at('11:00'));
+    const [booking] = await owner.store.list<Booking>(`${DATA}/bookings`);
+
+    await assertSucceeds(owner.service.cancelBooking(alice, await owner.snapshot(), booking, 'occurrence'));
+
+    const [entry] = await waiting.store.list<WaitlistEntry>(`${DATA}/waitlist`);
+    expect(entry.status).toBe('promoted');
+  });
+
+  it('refuses promoting another user\'s waitlist entry without booking it', async () => {
+    const waiting = signIn(bob);
+    await waiting.service.joinWaitlist(bob, [], microscope, at('10:00'), at('11:00'));
+    const [entry] = await waiting.store.list<WaitlistEntry>(`${DATA}/waitlist`);
+
+    const client = signIn(alice);
+    await assertFails(updateDoc(doc(client.db, `${DATA}/waitlist/${entry.id}`), { status: 'promoted', promotedAt: Timestamp.now(), bookingId: 'made-up' }));
+  });
+
+  it('does not let owners reopen a cancelled booking', async () => {
+    const client = signIn(alice);
+    await client.book(at('10:00'), at('11:00'));
+    const [booking] = await client.store.list<Booking>(`${DATA}/bookings`);
+    await client.service.cancelBooking(alice, await client.snapshot(), booking, 'occurrence');
+
+    await assertFails(updateDoc(doc(client.db, `${DATA}/bookings/${booking.id}`), { status: 'booked' }));
+  });
+
+  it('refuses check-in long before the start and changes to a quota override', async () => {
+    const client = signIn(alice);
+    await client.book(at('10:00'), at('11:00'));
+    const [booking] = await client.store.list<Booking>(`${DATA}/bookings`);
+
+    await assertFails(updateDoc(doc(client.db, `${DATA}/bookings/${booking.id}`), { checkedInAt: serverTimestamp() }));
+    await assertFails(updateDoc(doc(client.db, `${DATA}/bookings/${booking.id}`), { quotaOverriddenBy: 'alice' }));
+  });
+
+  it('refuses waitlist notices to other users without a booking for them', async () => {
+    const client = signIn(bob);
+    await assertFails(addDoc(collection(client.db, `artifacts/${APP_ID}/notifications`), {
+      type: 'waitlistPromoted', userId: 'alice', equipmentName: 'Microscope', slots: [], bookingId: 'missing', status: 'queued', createdAt: Timestamp.now(),
+    }));
+  });
+});
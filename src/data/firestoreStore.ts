@@ -0,0 +1,53 @@
+// src/data/firestoreStore.ts
+
+import { arrayUnion, collection, deleteField, doc, getDoc, getDocs, onSnapshot, orderBy, query, runTransaction, serverTimestamp, where, writeBatch, type DocumentData, type DocumentReference, type Firestore, type Query, type SetOptions } from 'firebase/firestore';
+import type { QueryOptions, Store, StoreWriter, WithId } from './store';
+
+// The writes Transaction and WriteBatch have in common.
+interface FirestoreWriter {
+  set: (ref: DocumentReference, data: DocumentData, options: SetOptions) => unknown;
+  update: (ref: DocumentReference, data: DocumentData) => unknown;
+  delete: (ref: DocumentReference) => unknown;
+}
+
+export const createFirestoreStore = (db: Firestore): Store => {
+  const toQuery = (collectionPath: string, options: QueryOptions = {}): Query => query(
+    collection(db, collectionPath),
+    ...(options.where ?? []).map(([field, operator, value]) => where(field, operator, value)),
+    ...(options.orderBy ? [orderBy(...options.orderBy)] : []),
+  );
+
+  const writerFor = (target: FirestoreWriter): StoreWriter => ({
+    set: (path, data, options) => { target.set(doc(db, path), data, options ?? {}); },
+    update: (path, data) => { target.update(doc(db, path), data); },
+    delete: (path) => { target.delete(doc(db, path)); },
+  });
+
+  return {
+    newId: (collectionPath) => doc(collection(db, collectionPath)).id,
+    get: async <T>(path: string) => (await getDoc(doc(db, path))).data() as T | undefined,
+    list: async <T>(collectionPath: string, options?: QueryOptions) => {
+      const snapshot = await getDocs(toQuery(collectionPath, options));
+      return snapshot.docs.map(d => ({ id: d.id, ...d.data() as T }) as WithId<T>);
+    },
+    // Server timestamps of pending local writes read as estimates instead of null.
+    watch: <T>(collectionPath: string, options: QueryOptions, onChange: (documents: WithId<T>[]) => void, onError?: (error: Error) => void) =>
+      onSnapshot(toQuery(collectionPath, options), (snapshot) => {
+        onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data({ serverTimestamps: 'estimate' }) as T }) as WithId<T>));
+      }, onError),
+    watchDocument: <T>(path: string, onChange: (data: T | undefined) => void) =>
+      onSnapshot(doc(db, path), (snapshot) => onChange(snapshot.data() as T | undefined)),
+    runTransaction: (update) => runTransaction(db, transaction => update({
+      ...writerFor(transaction),
+      get: async <T>(path: string) => (await transaction.get(doc(db, path))).data() as T | undefined,
+    })),
+    batch: (write) => {
+      const batch = writeBatch(db);
+      write(writerFor(batch));
+      return batch.commit();
+    },
+    serverTime: serverTimestamp,
+    deleteField,
+    arrayUnion,
+  };
+};
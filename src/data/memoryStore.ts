@@ -0,0 +1,178 @@
+// src/data/memoryStore.ts
+//
+// A Store that keeps documents in a Map, for unit tests and for running the data layer without
+// Firebase. Transactions and batches are applied one at a time, so they never contend; like
+// Firestore they are all-or-nothing, reject undefined values and stamp every server time in one
+// commit with the same timestamp. Dotted field paths in updates are not supported.
+
+import { Timestamp } from 'firebase/firestore';
+import type { Filter, QueryOptions, Store, StoreWriter, WithId } from './store';
+
+type Data = Record<string, unknown>;
+
+type Write =
+  | { kind: 'set'; path: string; data: Data; merge: boolean }
+  | { kind: 'update'; path: string; data: Data }
+  | { kind: 'delete'; path: string };
+
+const DELETE_FIELD = Symbol('deleteField');
+const SERVER_TIME = Symbol('serverTime');
+
+class ArrayUnion {
+  readonly items: unknown[];
+
+  constructor(items: unknown[]) {
+    this.items = items;
+  }
+}
+
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+const isPlainObject = (value: unknown): value is Data =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const comparable = (value: unknown) => (value instanceof Timestamp ? value.toMillis() : value) as string | number;
+
+const sameValue = (a: unknown, b: unknown) =>
+  (a instanceof Timestamp && b instanceof Timestamp ? a.isEqual(b) : JSON.stringify(a) === JSON.stringify(b));
+
+// Documents without the field never match, as in Firestore.
+const matches = (data: Data, [field, operator, value]: Filter) => {
+  const actual = data[field];
+  if (actual === undefined) return false;
+  switch (operator) {
+    case '==': return sameValue(actual, value);
+    case 'in': return (value as unknown[]).some(candidate => sameValue(actual, candidate));
+    case '<': return comparable(actual) < comparable(value);
+    case '<=': return comparable(actual) <= comparable(value);
+    case '>': return comparable(actual) > comparable(value);
+    case '>=': return comparable(actual) >= comparable(value);
+  }
+};
+
+const assertDefined = (value: unknown, path: string): void => {
+  if (value === undefined) throw new Error(`Unsupported field value: undefined (found in ${path}).`);
+  if (Array.isArray(value)) value.forEach(item => assertDefined(item, path));
+  else if (isPlainObject(value)) Object.values(value).forEach(item => assertDefined(item, path));
+};
+
+const resolveServerTime = (value: unknown, time: Timestamp): unknown => {
+  if (value === SERVER_TIME) return time;
+  if (Array.isArray(value)) return value.map(item => resolveServerTime(item, time));
+  if (value instanceof ArrayUnion) return new ArrayUnion(value.items.map(item => resolveServerTime(item, time)));
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, resolveServerTime(item, time)]));
+  return value;
+};
+
+const applyFields = (target: Data, fields: Data, merge: boolean): Data => {
+  const result = { ...target };
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === DELETE_FIELD) {
+      delete result[field];
+    } else if (value instanceof ArrayUnion) {
+      const existing = Array.isArray(result[field]) ? result[field] as unknown[] : [];
+      result[field] = [...existing, ...value.items.filter(item => !existing.some(e => sameValue(e, item)))];
+    } else if (merge && isPlainObject(value) && isPlainObject(result[field])) {
+      result[field] = applyFields(result[field] as Data, value, true);
+    } else {
+      result[field] = value;
+    }
+  }
+  return result;
+};
+
+export const createMemoryStore = (initial: Record<string, object> = {}): Store => {
+  let documents = new Map<string, Data>(Object.entries(initial).map(([path, data]) => [path, { ...data } as Data]));
+  const listeners = new Set<() => void>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Runs tasks one after another so a transaction never sees another one half applied.
+  const serialize = <R>(task: () => Promise<R>): Promise<R> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const select = <T>(collectionPath: string, options: QueryOptions = {}): WithId<T>[] => {
+    const results = [...documents.entries()]
+      .filter(([path, data]) => parentOf(path) === collectionPath && (options.where ?? []).every(filter => matches(data, filter)))
+      .map(([path, data]) => ({ id: path.slice(path.lastIndexOf('/') + 1), ...data }) as WithId<T>);
+    if (options.orderBy) {
+      const [field, direction] = options.orderBy;
+      const value = (document: WithId<T>) => comparable((document as Data)[field]);
+      results.sort((a, b) => (value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0) * (direction === 'desc' ? -1 : 1));
+    }
+    return results;
+  };
+
+  const writerFor = (writes: Write[]): StoreWriter => ({
+    set: (path, data, options) => { writes.push({ kind: 'set', path, data: data as Data, merge: !!options?.merge }); },
+    update: (path, data) => { writes.push({ kind: 'update', path, data: data as Data }); },
+    delete: (path) => { writes.push({ kind: 'delete', path }); },
+  });
+
+  // Applies every write to a copy first, so a failing write leaves the store untouched.
+  const commit = (writes: Write[]) => {
+    const next = new Map(documents);
+    const time = Timestamp.now();
+    writes.forEach(write => {
+      if (write.kind === 'delete') {
+        next.delete(write.path);
+        return;
+      }
+      assertDefined(write.data, write.path);
+      const current = next.get(write.path);
+      if (write.kind === 'update' && !current) throw new Error(`No document to update: ${write.path}`);
+      const fields = resolveServerTime(write.data, time) as Data;
+      next.set(write.path, applyFields(write.kind === 'set' && !write.merge ? {} : current ?? {}, fields, write.kind === 'set' && write.merge));
+    });
+    documents = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const subscribe = (deliver: () => void) => {
+    let active = true;
+    const listener = () => { if (active) deliver(); };
+    listeners.add(listener);
+    // Deliver the first results asynchronously, as Firestore does.
+    queueMicrotask(listener);
+    return () => { active = false; listeners.delete(listener); };
+  };
+
+  return {
+    newId: () => Array.from({ length: 20 }, () => ID_CHARS[Math.floor(Math.random() * ID_CHARS.length)]).join(''),
+    get: async <T>(path: string) => {
+      const data = documents.get(path);
+      return data ? { ...data } as T : undefined;
+    },
+    list: async (collectionPath, options) => select(collectionPath, options),
+    watch: (collectionPath, options, onChange) => subscribe(() => onChange(select(collectionPath, options))),
+    watchDocument: <T>(path: string, onChange: (data: T | undefined) => void) => subscribe(() => {
+      const data = documents.get(path);
+      onChange(data ? { ...data } as T : undefined);
+    }),
+    runTransaction: (update) => serialize(async () => {
+      const writes: Write[] = [];
+      const result = await update({
+        ...writerFor(writes),
+        get: async <T>(path: string) => {
+          if (writes.length > 0) throw new Error('Transactions must perform all reads before all writes.');
+          const data = documents.get(path);
+          return data ? { ...data } as T : undefined;
+        },
+      });
+      commit(writes);
+      return result;
+    }),
+    batch: (write) => serialize(async () => {
+      const writes: Write[] = [];
+      write(writerFor(writes));
+      commit(writes);
+    }),
+    serverTime: () => SERVER_TIME,
+    deleteField: () => DELETE_FIELD,
+    arrayUnion: (...items) => new ArrayUnion(items),
+  };
+};
@@ -0,0 +1,167 @@
+import { Timestamp } from 'firebase/firestore';
+import { describe, expect, it } from 'vitest';
+import { cancellationTargets, expandOccurrences, MAX_OCCURRENCES, NO_QUOTA, rangesOverlap, validateBookingTimes, validateQuota } from './rules';
+import { parseLocalDateTime } from './time';
+import type { Booking, Equipment, RecurrenceRule } from './types';
+
+const at = (iso: string) => new Date(iso);
+
+const weekly = (fields: Partial<RecurrenceRule>): RecurrenceRule => ({ frequency: 'weekly', interval: 1, weekdays: [], endType: 'count', until: '', count: 1, ...fields });
+
+describe('rangesOverlap', () => {
+  it('detects ranges that share time', () => {
+    expect(rangesOverlap(at('2030-01-07T09:00Z'), at('2030-01-07T11:00Z'), at('2030-01-07T10:00Z'), at('2030-01-07T12:00Z'))).toBe(true);
+    expect(rangesOverlap(at('2030-01-07T09:00Z'), at('2030-01-07T12:00Z'), at('2030-01-07T10:00Z'), at('2030-01-07T11:00Z'))).toBe(true);
+  });
+
+  it('lets one range end where the next starts', () => {
+    expect(rangesOverlap(at('2030-01-07T09:00Z'), at('2030-01-07T10:00Z'), at('2030-01-07T10:00Z'), at('2030-01-07T11:00Z'))).toBe(false);
+    expect(rangesOverlap(at('2030-01-07T10:00Z'), at('2030-01-07T11:00Z'), at('2030-01-07T09:00Z'), at('2030-01-07T10:00Z'))).toBe(false);
+  });
+});
+
+describe('validateBookingTimes', () => {
+  const now = at('2030-01-07T08:00Z');
+
+  it('accepts a future range', () => {
+    expect(validateBookingTimes(at('2030-01-07T09:00Z'), at('2030-01-07T10:00Z'), now)).toBeNull();
+  });
+
+  it('refuses an end at or before the start', () => {
+    expect(validateBookingTimes(at('2030-01-07T10:00Z'), at('2030-01-07T10:00Z'), now)).not.toBeNull();
+    expect(validateBookingTimes(at('2030-01-07T10:00Z'), at('2030-01-07T09:00Z'), now)).not.toBeNull();
+  });
+
+  it('refuses a start in the past', () => {
+    expect(validateBookingTimes(at('2030-01-07T07:00Z'), at('2030-01-07T09:00Z'), now)).not.toBeNull();
+  });
+});
+
+describe('parseLocalDateTime', () => {
+  it('converts wall-clock time in the given zone', () => {
+    expect(parseLocalDateTime('2026-07-01', '10:00', 'Europe/Berlin').toISOString()).toBe('2026-07-01T08:00:00.000Z');
+    expect(parseLocalDateTime('2026-01-15', '10:00', 'Europe/Berlin').toISOString()).toBe('2026-01-15T09:00:00.000Z');
+    expect(parseLocalDateTime('2026-01-15', '10:00', 'Asia/Shanghai').toISOString()).toBe('2026-01-15T02:00:00.000Z');
+  });
+
+  it('reads 24:00 as the end of the day', () => {
+    expect(parseLocalDateTime('2026-07-01', '24:00', 'Europe/Berlin').toISOString()).toBe('2026-07-01T22:00:00.000Z');
+  });
+
+  it('moves times skipped when clocks go forward past the gap', () => {
+    // Berlin skips from 02:00 to 03:00 on 29 March 2026, so 02:30 becomes 03:30.
+    expect(parseLocalDateTime('2026-03-29', '02:30', 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(parseLocalDateTime('2026-03-29', '03:00', 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:00:00.000Z');
+  });
+
+  it('takes the first of the times repeated when clocks go back', () => {
+    // Berlin shows 02:00–03:00 twice on 25 October 2026.
+    expect(parseLocalDateTime('2026-10-25', '02:30', 'Europe/Berlin').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+    expect(parseLocalDateTime('2026-10-25', '03:00', 'Europe/Berlin').toISOString()).toBe('2026-10-25T02:00:00.000Z');
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('returns the booking itself without recurrence', () => {
+    const start = at('2030-01-07T09:00Z');
+    const end = at('2030-01-07T10:00Z');
+    expect(expandOccurrences(start, end, weekly({ frequency: 'none' }), 'UTC')).toEqual([{ start, end }]);
+  });
+
+  it('keeps the wall-clock time across a daylight-saving change', () => {
+    // Mondays at 10:00 Berlin time, either side of 29 March 2026.
+    const occurrences = expandOccurrences(at('2026-03-23T09:00Z'), at('2026-03-23T10:30Z'), weekly({ count: 2 }), 'Europe/Berlin');
+    expect(occurrences.map(o => [o.start.toISOString(), o.end.toISOString()])).toEqual([
+      ['2026-03-23T09:00:00.000Z', '2026-03-23T10:30:00.000Z'],
+      ['2026-03-30T08:00:00.000Z', '2026-03-30T09:30:00.000Z'],
+    ]);
+  });
+
+  it('repeats on the chosen weekdays every other week until the end date', () => {
+    // Monday 7 January 2030; Mondays and Wednesdays of every second week up to 23 January.
+    const occurrences = expandOccurrences(at('2030-01-07T09:00Z'), at('2030-01-07T10:00Z'), weekly({ interval: 2, weekdays: [1, 3], endType: 'until', until: '2030-01-23' }), 'UTC');
+    expect(occurrences.map(o => o.start.toISOString().slice(0, 10))).toEqual(['2030-01-07', '2030-01-09', '2030-01-21', '2030-01-23']);
+  });
+
+  it('repeats daily at the given interval', () => {
+    const occurrences = expandOccurrences(at('2030-01-07T09:00Z'), at('2030-01-07T10:00Z'), { ...weekly({ count: 3 }), frequency: 'daily', interval: 2 }, 'UTC');
+    expect(occurrences.map(o => o.start.toISOString().slice(0, 10))).toEqual(['2030-01-07', '2030-01-09', '2030-01-11']);
+  });
+
+  it('stops one past the limit so callers can detect overflow', () => {
+    const occurrences = expandOccurrences(at('2030-01-07T09:00Z'), at('2030-01-07T10:00Z'), { ...weekly({ count: 500 }), frequency: 'daily' }, 'UTC');
+    expect(occurrences).toHaveLength(MAX_OCCURRENCES + 1);
+  });
+});
+
+describe('validateQuota', () => {
+  const equipment: Equipment = { id: 'microscope', name: 'Microscope', description: '' };
+  const now = at('2030-01-07T08:00Z');
+  // Wednesday 9 January 2030.
+  const start = at('2030-01-09T10:00Z');
+  const end = at('2030-01-09T12:00Z');
+
+  it('allows anything without limits', () => {
+    expect(validateQuota(equipment, NO_QUOTA, [{ start: at('2030-01-08T10:00Z'), end: at('2030-01-08T20:00Z') }], start, end, now, 'UTC')).toBeNull();
+  });
+
+  it('limits how far ahead a booking may start', () => {
+    const policy = { ...NO_QUOTA, maxAdvanceDays: 1 };
+    expect(validateQuota(equipment, policy, [], start, end, now, 'UTC')).toContain('Microscope');
+    expect(validateQuota(equipment, { ...policy, maxAdvanceDays: 7 }, [], start, end, now, 'UTC')).toBeNull();
+  });
+
+  it('counts only bookings that have not ended towards the active limit', () => {
+    const policy = { ...NO_QUOTA, maxActiveBookings: 1 };
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-06T10:00Z'), end: at('2030-01-06T11:00Z') }], start, end, now, 'UTC')).toBeNull();
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-08T10:00Z'), end: at('2030-01-08T11:00Z') }], start, end, now, 'UTC')).not.toBeNull();
+  });
+
+  it('adds up hours per Monday-to-Sunday week', () => {
+    const policy = { ...NO_QUOTA, maxHoursPerWeek: 4 };
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-07T10:00Z'), end: at('2030-01-07T12:00Z') }], start, end, now, 'UTC')).toBeNull();
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-07T10:00Z'), end: at('2030-01-07T13:00Z') }], start, end, now, 'UTC')).not.toBeNull();
+    // Sunday 6 January belongs to the previous week.
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-06T10:00Z'), end: at('2030-01-06T13:00Z') }], start, end, now, 'UTC')).toBeNull();
+  });
+
+  it('keeps a gap between bookings', () => {
+    const policy = { ...NO_QUOTA, cooldownMinutes: 30 };
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-09T08:00Z'), end: at('2030-01-09T09:45Z') }], start, end, now, 'UTC')).not.toBeNull();
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-09T08:00Z'), end: at('2030-01-09T09:30Z') }], start, end, now, 'UTC')).toBeNull();
+    expect(validateQuota(equipment, policy, [{ start: at('2030-01-09T12:15Z'), end: at('2030-01-09T13:00Z') }], start, end, now, 'UTC')).not.toBeNull();
+  });
+});
+
+describe('cancellationTargets', () => {
+  const booking = (id: string, startIso: string, fields: Partial<Booking> = {}): Booking => ({
+    id,
+    equipmentId: 'microscope',
+    equipmentName: 'Microscope',
+    userId: 'alice',
+    userDisplayName: 'Alice',
+    startDate: Timestamp.fromDate(at(startIso)),
+    endDate: Timestamp.fromMillis(at(startIso).getTime() + 3600000),
+    status: 'booked',
+    bookedAt: Timestamp.fromDate(at('2030-01-01T00:00Z')),
+    seriesId: 'series',
+    ...fields,
+  });
+  const series = [
+    booking('past', '2030-01-06T10:00Z'),
+    booking('first', '2030-01-07T10:00Z'),
+    booking('second', '2030-01-08T10:00Z'),
+    booking('cancelled', '2030-01-09T10:00Z', { status: 'cancelled' }),
+    booking('other', '2030-01-08T10:00Z', { seriesId: 'other' }),
+  ];
+  const now = at('2030-01-07T12:00Z').getTime();
+
+  it('cancels only the chosen occurrence', () => {
+    expect(cancellationTargets(series, series[2], 'occurrence', now).map(b => b.id)).toEqual(['second']);
+  });
+
+  it('cancels every active occurrence of the series that has not ended, whichever one was chosen', () => {
+    expect(cancellationTargets(series, series[2], 'series', now).map(b => b.id)).toEqual(['second']);
+    expect(cancellationTargets(series, series[1], 'series', at('2030-01-07T10:30Z').getTime()).map(b => b.id)).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,218 @@
+// src/data/rules.ts
+//
+// Booking rules as pure functions of the documents involved. They return a message in the
+// current UI language describing the first problem, or null, and never touch a backend.
+
+import { formatInTimeZone, t, weekdayName } from '../i18n';
+import { addDaysToKey, browserTimeZone, minutesOfDay, minutesToTime, parseLocalDateTime, timeToMinutes, toDateKey, weekdayOfKey } from './time';
+import type { Blackout, Booking, BookingRules, BookingStatus, DailyHours, Equipment, EquipmentStatus, LabSettings, NoShowPolicy, Occurrence, OpeningHours, QuotaPolicies, QuotaPolicy, RecurrenceRule, Role, ScheduleSlot } from './types';
+
+// --- Dates & Times ---
+export const rangesOverlap = (startA: Date, endA: Date, startB: Date, endB: Date) => startA < endB && endA > startB;
+
+// Upper bound on occurrences per series; also keeps a series inside one transaction's write limit.
+export const MAX_OCCURRENCES = 100;
+
+// Expands a recurrence rule into concrete start/end pairs, keeping the first booking's
+// wall-clock times in timeZone and its duration. Stops at MAX_OCCURRENCES + 1 so callers can
+// detect overflow.
+export const expandOccurrences = (start: Date, end: Date, rule: RecurrenceRule, timeZone: string): Occurrence[] => {
+  if (rule.frequency === 'none') return [{ start, end }];
+  const duration = end.getTime() - start.getTime();
+  const startKey = toDateKey(start, timeZone);
+  const startTime = minutesToTime(minutesOfDay(start, timeZone));
+  const startWeekday = weekdayOfKey(startKey);
+  const limit = Math.min(rule.endType === 'count' ? rule.count : Infinity, MAX_OCCURRENCES + 1);
+  const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [startWeekday];
+  const occurrences: Occurrence[] = [];
+
+  for (let day = 0; occurrences.length < limit; day++) {
+    const dateKey = addDaysToKey(startKey, day);
+    if (rule.endType === 'until' && dateKey > rule.until) break;
+    const included = rule.frequency === 'daily'
+      ? day % rule.interval === 0
+      : weekdays.includes(weekdayOfKey(dateKey)) && Math.floor((day + startWeekday) / 7) % rule.interval === 0;
+    if (included) {
+      const occurrenceStart = parseLocalDateTime(dateKey, startTime, timeZone);
+      occurrences.push({ start: occurrenceStart, end: new Date(occurrenceStart.getTime() + duration) });
+    }
+  }
+  return occurrences;
+};
+
+// --- Roles & Permissions ---
+// Keep in sync with the role helpers in firestore.rules.
+export const canManageEquipment = (role: Role) => role === 'admin' || role === 'labManager';
+export const canManageRoles = (role: Role) => role === 'admin';
+export const canBook = (role: Role) => role !== 'viewer';
+
+// --- Bookings ---
+// Statuses that hold a slot in the schedule and block overlapping bookings.
+export const ACTIVE_STATUSES: BookingStatus[] = ['pending', 'booked'];
+
+// Returns why start–end cannot be booked at all, or null.
+export const validateBookingTimes = (start: Date, end: Date, now: Date): string | null => {
+  if (start >= end) return t('rules.endBeforeStart');
+  if (start.getTime() < now.getTime()) return t('rules.startInPast');
+  return null;
+};
+
+// Returns why a recurrence rule for a booking starting on startDate ('YYYY-MM-DD') is invalid, or null.
+export const validateRecurrence = (rule: RecurrenceRule, startDate: string): string | null => {
+  if (rule.frequency === 'none') return null;
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) return t('rules.invalidInterval');
+  if (rule.endType === 'count' && (!Number.isInteger(rule.count) || rule.count < 1)) return t('rules.invalidCount');
+  if (rule.endType === 'until' && (!rule.until || rule.until < startDate)) return t('rules.untilBeforeStart');
+  return null;
+};
+
+// The schedule slot that start–end would overlap, if any.
+export const findClash = (slots: ScheduleSlot[], start: Date, end: Date) => slots.find(slot => rangesOverlap(start, end, slot.start.toDate(), slot.end.toDate()));
+
+// The bookings a cancellation covers: the booking itself, or for 'series' every active
+// occurrence of the same recurring booking that has not ended yet, earlier ones included.
+export const cancellationTargets = (bookings: Booking[], booking: Booking, scope: 'occurrence' | 'series', now: number) =>
+  scope === 'series' && booking.seriesId
+    ? bookings.filter(b => b.seriesId === booking.seriesId && ACTIVE_STATUSES.includes(b.status) && b.endDate.toMillis() > now)
+    : [booking];
+
+export const upcomingBookingsOn = (bookings: Booking[], equipmentId: string, now: number) =>
+  bookings.filter(b => b.equipmentId === equipmentId && ACTIVE_STATUSES.includes(b.status) && b.endDate.toMillis() > now);
+
+// --- Equipment ---
+export const DEFAULT_BOOKING_RULES: BookingRules = { minDurationMinutes: 30, maxDurationMinutes: 0, slotMinutes: 30, leadTimeHours: 0 };
+
+// Equipment created before status and rules existed is treated as available with the defaults.
+export const equipmentStatusOf = (equipment: Equipment): EquipmentStatus => equipment.status ?? 'available';
+export const bookingRulesOf = (equipment: Equipment): BookingRules => ({ ...DEFAULT_BOOKING_RULES, ...equipment.bookingRules });
+
+export const formatMinutes = (minutes: number) => (minutes % 60 === 0 ? t('units.hours', minutes / 60) : minutes > 60 ? t('units.hoursMinutes', Math.floor(minutes / 60), minutes % 60) : t('units.minutes', minutes));
+
+// Returns the first rule a booking from start to end would break, or null if it is allowed.
+// Slot boundaries are wall-clock times in timeZone.
+export const validateBookingRules = (equipment: Equipment, start: Date, end: Date, now: Date, timeZone: string): string | null => {
+  const status = equipmentStatusOf(equipment);
+  if (status !== 'available') return t('rules.notBookable', equipment.name, t(`equipmentStatus.${status}`));
+  const rules = bookingRulesOf(equipment);
+  const durationMinutes = (end.getTime() - start.getTime()) / 60000;
+  if (durationMinutes < rules.minDurationMinutes) return t('rules.minDuration', equipment.name, formatMinutes(rules.minDurationMinutes));
+  if (rules.maxDurationMinutes > 0 && durationMinutes > rules.maxDurationMinutes) return t('rules.maxDuration', equipment.name, formatMinutes(rules.maxDurationMinutes));
+  if (minutesOfDay(start, timeZone) % rules.slotMinutes !== 0 || minutesOfDay(end, timeZone) % rules.slotMinutes !== 0) return t('rules.slotBoundary', equipment.name, formatMinutes(rules.slotMinutes));
+  if (start.getTime() - now.getTime() < rules.leadTimeHours * 3600000) return t('rules.leadTime', equipment.name, rules.leadTimeHours);
+  return null;
+};
+
+// --- Opening Hours & Closures ---
+export const DEFAULT_OPENING_HOURS: OpeningHours = Array.from({ length: 7 }, () => ({ open: '08:00', close: '17:00' }));
+export const DEFAULT_LAB_SETTINGS: LabSettings = { openingHours: DEFAULT_OPENING_HOURS, holidays: [] };
+
+// Labs that have not chosen a time zone keep the one of the browser viewing them.
+export const labTimeZoneOf = (settings: LabSettings) => settings.timeZone || browserTimeZone();
+
+export const openingHoursOf = (settings: LabSettings, equipment?: Equipment | null): OpeningHours => equipment?.openingHours ?? settings.openingHours;
+export const holidayOn = (settings: LabSettings, dateKey: string) => settings.holidays.find(h => h.date === dateKey);
+
+// The opening window for a lab-local calendar day ('YYYY-MM-DD'), or null when the lab or device is closed.
+export const dailyHoursOn = (settings: LabSettings, equipment: Equipment | null, dateKey: string): DailyHours | null =>
+  holidayOn(settings, dateKey) ? null : openingHoursOf(settings, equipment)[weekdayOfKey(dateKey)] ?? null;
+
+// Returns why a booking from start to end is outside opening hours, on a holiday or in a
+// blackout, or null if the device is open for it. Multi-day bookings only need the start
+// and end to fall inside opening hours, so overnight runs stay possible.
+export const validateAvailability = (equipment: Equipment, start: Date, end: Date, settings: LabSettings, blackouts: Blackout[]): string | null => {
+  const timeZone = labTimeZoneOf(settings);
+  const startKey = toDateKey(start, timeZone);
+  for (let day = startKey; parseLocalDateTime(day, '00:00', timeZone) < end; day = addDaysToKey(day, 1)) {
+    const holiday = holidayOn(settings, day);
+    if (holiday) return t('rules.holiday', holiday.date, holiday.name);
+  }
+  const startMinutes = minutesOfDay(start, timeZone);
+  const startHours = dailyHoursOn(settings, equipment, startKey);
+  if (!startHours || startMinutes < timeToMinutes(startHours.open) || startMinutes >= timeToMinutes(startHours.close)) {
+    const weekday = weekdayName(weekdayOfKey(startKey));
+    return startHours ? t('rules.openOnly', equipment.name, startHours.open, startHours.close, weekday) : t('rules.closedOn', equipment.name, weekday);
+  }
+  // A booking ending at midnight ends at 24:00 on the previous day.
+  const endsAtMidnight = minutesOfDay(end, timeZone) === 0;
+  const endKey = toDateKey(endsAtMidnight ? new Date(end.getTime() - 1) : end, timeZone);
+  const endMinutes = endsAtMidnight ? 24 * 60 : minutesOfDay(end, timeZone);
+  const endHours = dailyHoursOn(settings, equipment, endKey);
+  if (!endHours || endMinutes <= timeToMinutes(endHours.open) || endMinutes > timeToMinutes(endHours.close)) {
+    const weekday = weekdayName(weekdayOfKey(endKey));
+    return endHours ? t('rules.openOnly', equipment.name, endHours.open, endHours.close, weekday) : t('rules.closedOn', equipment.name, weekday);
+  }
+  const blackout = blackouts.find(b => b.equipmentId === equipment.id && rangesOverlap(start, end, b.start.toDate(), b.end.toDate()));
+  if (blackout) return t('rules.blackout', equipment.name, formatInTimeZone(blackout.start.toDate(), timeZone), formatInTimeZone(blackout.end.toDate(), timeZone), blackout.reason);
+  return null;
+};
+
+// Why a booking cannot move unchanged onto target when its own equipment is archived, or null.
+// The checks of a reschedule by a lab manager, apart from clashes.
+export const validateMove = (target: Equipment, booking: Booking, settings: LabSettings, blackouts: Blackout[], now: Date): string | null => {
+  const start = booking.startDate.toDate();
+  const end = booking.endDate.toDate();
+  return validateBookingTimes(start, end, now)
+    ?? validateBookingRules(target, start, end, now, labTimeZoneOf(settings))
+    ?? validateAvailability(target, start, end, settings, blackouts);
+};
+
+// --- Check-in & No-shows ---
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = { graceMinutes: 15, limit: 0, windowDays: 90 };
+// Check-in opens this long before a booking starts; firestore.rules repeats the value.
+export const CHECK_IN_EARLY_MINUTES = 15;
+
+export const noShowPolicyOf = (settings: LabSettings): NoShowPolicy => ({ ...DEFAULT_NO_SHOW_POLICY, ...settings.noShowPolicy });
+
+export const canCheckIn = (booking: Booking, now: number) =>
+  booking.status === 'booked' && !booking.checkedInAt && now >= booking.startDate.toMillis() - CHECK_IN_EARLY_MINUTES * 60000 && now < booking.endDate.toMillis();
+
+// No-shows that count towards the restriction: not excused and inside the policy window.
+export const countedNoShows = (bookings: Booking[], userId: string, policy: NoShowPolicy, now: number) =>
+  bookings.filter(b => b.userId === userId && b.status === 'noShow' && !b.noShowExcused && b.startDate.toMillis() > now - policy.windowDays * 86400000);
+
+// Confirmed bookings nobody checked in for within the grace window. Only bookings that are still
+// running count: an ended booking has no slot left to free, and bookings from before check-in
+// existed must not turn into no-shows.
+export const overdueBookings = (bookings: Booking[], policy: NoShowPolicy, now: number) =>
+  bookings.filter(b => b.status === 'booked' && !b.checkedInAt && b.startDate.toMillis() + policy.graceMinutes * 60000 < now && b.endDate.toMillis() > now);
+
+export const validateNoShowLimit = (bookings: Booking[], userId: string, policy: NoShowPolicy, now: number): string | null =>
+  (policy.limit > 0 && countedNoShows(bookings, userId, policy, now).length >= policy.limit
+    ? t('rules.noShowLimit', policy.limit, policy.windowDays)
+    : null);
+
+// --- Quotas ---
+export const NO_QUOTA: QuotaPolicy = { maxHoursPerWeek: 0, maxActiveBookings: 0, maxAdvanceDays: 0, cooldownMinutes: 0 };
+
+export const quotaPoliciesOf = (settings: LabSettings, equipment?: Equipment | null): QuotaPolicies => equipment?.quotas ?? settings.quotas ?? {};
+export const quotaPolicyFor = (settings: LabSettings, equipment: Equipment, role: Role): QuotaPolicy => ({ ...NO_QUOTA, ...quotaPoliciesOf(settings, equipment)[role] });
+
+// Monday of the week containing date in timeZone, as a date key.
+export const weekKey = (date: Date, timeZone: string) => {
+  const dateKey = toDateKey(date, timeZone);
+  return addDaysToKey(dateKey, -((weekdayOfKey(dateKey) + 6) % 7));
+};
+
+// Returns why booking start–end would break the policy, or null. existing holds the user's
+// other active bookings on the same device, including earlier occurrences of the same request.
+// Weeks run Monday to Sunday in timeZone.
+export const validateQuota = (equipment: Equipment, policy: QuotaPolicy, existing: { start: Date; end: Date }[], start: Date, end: Date, now: Date, timeZone: string): string | null => {
+  if (policy.maxAdvanceDays > 0 && start.getTime() > now.getTime() + policy.maxAdvanceDays * 86400000) {
+    return t('rules.maxAdvanceDays', equipment.name, policy.maxAdvanceDays);
+  }
+  if (policy.maxActiveBookings > 0 && existing.filter(b => b.end > now).length >= policy.maxActiveBookings) {
+    return t('rules.maxActiveBookings', equipment.name, policy.maxActiveBookings);
+  }
+  if (policy.maxHoursPerWeek > 0) {
+    const week = weekKey(start, timeZone);
+    const hours = [...existing, { start, end }].filter(b => weekKey(b.start, timeZone) === week).reduce((total, b) => total + (b.end.getTime() - b.start.getTime()) / 3600000, 0);
+    if (hours > policy.maxHoursPerWeek) return t('rules.maxHoursPerWeek', equipment.name, policy.maxHoursPerWeek, week, Math.round(hours * 10) / 10);
+  }
+  if (policy.cooldownMinutes > 0) {
+    const gap = policy.cooldownMinutes * 60000;
+    if (existing.some(b => b.end.getTime() > start.getTime() - gap && b.start.getTime() < end.getTime() + gap)) {
+      return t('rules.cooldown', equipment.name, formatMinutes(policy.cooldownMinutes));
+    }
+  }
+  return null;
+};
@@ -0,0 +1,44 @@
+// src/data/store.ts
+//
+// The document store behind bookingService. Paths are slash-separated document or collection
+// paths, as in Firestore. createFirestoreStore backs the app; createMemoryStore keeps
+// everything in memory for tests and local experiments.
+
+export type WhereOperator = '==' | 'in' | '<' | '<=' | '>' | '>=';
+export type Filter = [field: string, operator: WhereOperator, value: unknown];
+
+export interface QueryOptions {
+  where?: Filter[];
+  orderBy?: [field: string, direction: 'asc' | 'desc'];
+}
+
+export type WithId<T> = T & { id: string };
+
+// Writes shared by transactions and batches.
+export interface StoreWriter {
+  set: (path: string, data: object, options?: { merge: boolean }) => void;
+  update: (path: string, data: object) => void;
+  delete: (path: string) => void;
+}
+
+// Reads must all happen before the first write, as in Firestore.
+export interface StoreTransaction extends StoreWriter {
+  get: <T>(path: string) => Promise<T | undefined>;
+}
+
+export interface Store {
+  newId: (collectionPath: string) => string;
+  get: <T>(path: string) => Promise<T | undefined>;
+  list: <T>(collectionPath: string, options?: QueryOptions) => Promise<WithId<T>[]>;
+  // Calls onChange with the current results and again after every change. Returns an unsubscribe function.
+  watch: <T>(collectionPath: string, options: QueryOptions, onChange: (documents: WithId<T>[]) => void, onError?: (error: Error) => void) => () => void;
+  watchDocument: <T>(path: string, onChange: (data: T | undefined) => void) => () => void;
+  // Retried by the backend on contention, so update must not have side effects outside it.
+  runTransaction: <R>(update: (transaction: StoreTransaction) => Promise<R>) => Promise<R>;
+  // Applies all writes atomically; unlike a transaction it is queued while offline.
+  batch: (write: (writer: StoreWriter) => void) => Promise<void>;
+  // Values resolved by the backend when a write is applied.
+  serverTime: () => unknown;
+  deleteField: () => unknown;
+  arrayUnion: (...items: unknown[]) => unknown;
+}
@@ -0,0 +1,74 @@
+// src/data/time.ts
+//
+// Calendar arithmetic in the lab's time zone. Opening hours, holidays, form fields and date
+// keys ('YYYY-MM-DD') are lab-local wall-clock values; these helpers convert between them and
+// instants, so a booking made from another time zone lands in the intended lab-local slot.
+
+export const timeToMinutes = (time: string) => { const [hours, minutes] = time.split(':').map(Number); return hours * 60 + minutes; };
+export const minutesToTime = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Creating a formatter is slow, and the same few zones are used over and over.
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+const partsFormatter = (timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// The wall-clock fields of date in timeZone.
+const zonedFields = (date: Date, timeZone: string) => {
+  const fields: Record<string, number> = {};
+  partsFormatter(timeZone).formatToParts(date).forEach(part => { if (part.type !== 'literal') fields[part.type] = Number(part.value); });
+  return { year: fields.year, month: fields.month, day: fields.day, hour: fields.hour, minute: fields.minute, second: fields.second };
+};
+
+// The same wall-clock fields read as UTC, so that offsets can be computed by subtraction.
+const wallClockMillis = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = zonedFields(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+};
+
+const keyOfUtc = (millis: number) => new Date(millis).toISOString().slice(0, 10);
+
+export const toDateKey = (date: Date, timeZone: string) => keyOfUtc(wallClockMillis(date, timeZone));
+export const minutesOfDay = (date: Date, timeZone: string) => { const { hour, minute } = zonedFields(date, timeZone); return hour * 60 + minute; };
+// 0 is Sunday, as in Date.getDay().
+export const weekdayOfKey = (dateKey: string) => new Date(`${dateKey}T00:00Z`).getUTCDay();
+export const weekdayOf = (date: Date, timeZone: string) => weekdayOfKey(toDateKey(date, timeZone));
+export const addDaysToKey = (dateKey: string, days: number) => keyOfUtc(Date.parse(`${dateKey}T00:00Z`) + days * 86400000);
+export const formatDateKeyTime = (date: Date, timeZone: string) => `${toDateKey(date, timeZone)} ${minutesToTime(minutesOfDay(date, timeZone))}`;
+
+// The instant at which the clocks in timeZone show date ('YYYY-MM-DD') and time ('HH:mm'),
+// accepting '24:00' as the end of the day. Times skipped by a daylight-saving change resolve to
+// the instant after the gap, and repeated times to their first occurrence.
+export const parseLocalDateTime = (date: string, time: string, timeZone: string): Date => {
+  if (time === '24:00') return parseLocalDateTime(addDaysToKey(date, 1), '00:00', timeZone);
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  // Time zones change their offset at most once within a day or so, so the offsets a day either
+  // side of the wall-clock time cover every instant that can show it.
+  const candidates = [wallClock - 86400000, wallClock + 86400000].map(t => wallClock - (wallClockMillis(new Date(t), timeZone) - t));
+  const exact = candidates.filter(t => wallClockMillis(new Date(t), timeZone) === wallClock);
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...candidates));
+};
+
+// FullCalendar without a time zone plugin can only show local time or UTC. Shifting instants
+// so that their UTC fields are the lab's wall-clock time lets it show lab time in UTC mode.
+export const toLabWallClock = (date: Date, timeZone: string) => new Date(wallClockMillis(date, timeZone));
+export const fromLabWallClock = (date: Date, timeZone: string) => {
+  const iso = date.toISOString();
+  return parseLocalDateTime(iso.slice(0, 10), iso.slice(11, 16), timeZone);
+};
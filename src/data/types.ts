@@ -0,0 +1,250 @@
+// src/data/types.ts
+//
+// Documents stored under artifacts/{appId}. Shared by the app and the data layer; timestamps
+// are Firestore Timestamps in every backend.
+
+import type { Timestamp } from 'firebase/firestore';
+
+export type Role = 'admin' | 'labManager' | 'member' | 'viewer';
+
+export type NotificationType = 'bookingConfirmed' | 'bookingCancelled' | 'bookingNoShow' | 'bookingMoved' | 'waitlistPromoted' | 'equipmentChanged' | 'bookingReminder';
+
+// An email waiting in the outbox. Clients cannot read other users' addresses, so they only
+// record what happened; the worker looks up the recipient's address in Firebase Auth.
+export interface BookingNotification {
+  type: NotificationType;
+  userId: string;
+  equipmentName: string;
+  slots: { start: Timestamp; end: Timestamp }[];
+  bookingStatus?: BookingStatus;
+  // The cancellation reason, or the previous equipment name for bookingMoved.
+  detail?: string;
+  // The booking made from the waitlist, for waitlistPromoted; the security rules check that the
+  // same write creates it.
+  bookingId?: string;
+  status: 'queued';
+  createdAt: Timestamp;
+}
+
+export type EquipmentStatus = 'available' | 'maintenance' | 'retired';
+
+// Times are 'HH:MM' in lab-local time; close may be '24:00'.
+export interface DailyHours {
+  open: string;
+  close: string;
+}
+
+// Indexed by weekday, 0 = Sunday. null means closed all day.
+export type OpeningHours = (DailyHours | null)[];
+
+export interface Holiday {
+  // 'YYYY-MM-DD'
+  date: string;
+  name: string;
+}
+
+// limit 0 turns the booking restriction off; no-shows are still recorded.
+export interface NoShowPolicy {
+  graceMinutes: number;
+  limit: number;
+  windowDays: number;
+}
+
+// Fair-use limits for one role on one device. 0 means no limit.
+export interface QuotaPolicy {
+  maxHoursPerWeek: number;
+  maxActiveBookings: number;
+  maxAdvanceDays: number;
+  cooldownMinutes: number;
+}
+
+export type QuotaPolicies = Partial<Record<Role, QuotaPolicy>>;
+
+export interface LabSettings {
+  openingHours: OpeningHours;
+  holidays: Holiday[];
+  noShowPolicy?: NoShowPolicy;
+  // Lab-wide defaults; a device can replace them with its own.
+  quotas?: QuotaPolicies;
+  // IANA name, e.g. 'Asia/Shanghai'. Opening hours, holidays and booking times are read in it.
+  timeZone?: string;
+  updatedAt?: Timestamp;
+}
+
+// A maintenance window during which one device cannot be booked.
+export interface Blackout {
+  id: string;
+  equipmentId: string;
+  start: Timestamp;
+  end: Timestamp;
+  reason: string;
+  createdBy?: string;
+  createdAt?: Timestamp;
+}
+
+// Per-device booking constraints. A maximum of 0 means no limit.
+export interface BookingRules {
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+  // Bookings must start and end on multiples of this many minutes past midnight.
+  slotMinutes: number;
+  // How far ahead of the start time a booking must be made.
+  leadTimeHours: number;
+}
+
+export interface Equipment {
+  id: string;
+  name: string;
+  description: string;
+  category?: string;
+  location?: string;
+  responsiblePerson?: string;
+  status?: EquipmentStatus;
+  imageUrl?: string;
+  imagePath?: string;
+  quotas?: QuotaPolicies;
+  // Archived equipment is hidden everywhere except reports; it is never deleted.
+  archivedAt?: Timestamp;
+  archivedBy?: string;
+  bookingRules?: BookingRules;
+  // Overrides the lab-wide opening hours for this device.
+  openingHours?: OpeningHours;
+  // Bookings start as 'pending' until a lab manager approves them.
+  requiresApproval?: boolean;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type BookingStatus = 'pending' | 'booked' | 'rejected' | 'cancelled' | 'noShow';
+
+export interface Booking {
+  id: string;
+  equipmentId: string;
+  equipmentName: string;
+  userId: string;
+  userDisplayName: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  status: BookingStatus;
+  bookedAt: Timestamp;
+  updatedAt?: Timestamp;
+  cancelledAt?: Timestamp;
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt?: Timestamp;
+  rejectionReason?: string;
+  cancellationReason?: string;
+  // Shared by every occurrence of a recurring booking.
+  seriesId?: string;
+  // Every reschedule, oldest first.
+  history?: BookingChange[];
+  // Set when the booking was made automatically for a waitlisted request.
+  waitlistEntryId?: string;
+  // Actual usage, stamped with the server time.
+  checkedInAt?: Timestamp;
+  checkedOutAt?: Timestamp;
+  noShowAt?: Timestamp;
+  // Set by a lab manager; excused no-shows do not count towards the restriction.
+  noShowExcused?: boolean;
+  // The lab manager who booked or moved this past the quotas.
+  quotaOverriddenBy?: string;
+}
+
+export type WaitlistStatus = 'waiting' | 'promoted' | 'withdrawn';
+
+// A request for a time range that was taken. It is booked automatically, first come first
+// served, as soon as a cancellation frees the whole range.
+export interface WaitlistEntry {
+  id: string;
+  equipmentId: string;
+  equipmentName: string;
+  userId: string;
+  userDisplayName: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  status: WaitlistStatus;
+  createdAt: Timestamp;
+  promotedAt?: Timestamp;
+  bookingId?: string;
+}
+
+export type AuditTargetType = 'equipment' | 'booking' | 'blackout' | 'settings';
+export type AuditAction = 'created' | 'updated' | 'deleted' | 'archived' | 'restored' | 'rescheduled' | 'cancelled' | 'approved' | 'rejected' | 'checkedIn' | 'checkedOut' | 'noShow';
+
+// Before and after values of one field; null when the field was absent.
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+// Append-only record of a change to equipment, bookings or lab settings, written in the same
+// transaction or batch as the change itself.
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetName: string;
+  actorId: string;
+  actorName: string;
+  changes: Record<string, AuditChange>;
+  at: Timestamp;
+}
+
+export type AuditTarget = Pick<AuditEntry, 'targetType' | 'targetId' | 'targetName'>;
+// What a change site describes; the actor and time are added when it is written.
+export type AuditEvent = Omit<AuditEntry, 'id' | 'actorId' | 'actorName' | 'at'>;
+
+export interface BookingSlot {
+  equipmentId: string;
+  equipmentName: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+}
+
+export interface BookingChange {
+  changedAt: Timestamp;
+  changedBy: string;
+  changedByName: string;
+  from: BookingSlot;
+  to: BookingSlot;
+}
+
+export type RecurrenceFrequency = 'none' | 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Repeat every N days (daily) or every N weeks (weekly).
+  interval: number;
+  // Days of the week for weekly rules, 0 = Sunday. Empty means the start date's weekday.
+  weekdays: number[];
+  endType: 'until' | 'count';
+  until: string;
+  count: number;
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+  clash?: ScheduleSlot;
+  // Why the occurrence falls outside opening hours, on a holiday or in a blackout.
+  problem?: string;
+}
+
+// One document per equipment listing its booked ranges. Bookings and reschedules read and
+// extend it inside a transaction, which serialises writers per device. Slots are never removed
+// by members: a slot counts only while its booking is active at exactly that range, and the
+// notification worker prunes the rest.
+export interface ScheduleSlot {
+  bookingId: string;
+  start: Timestamp;
+  end: Timestamp;
+}
+
+export interface EquipmentSchedule {
+  slots: ScheduleSlot[];
+  updatedAt: Timestamp;
+  // A booking written in the same transaction, stamped with the same updatedAt. The security
+  // rules only accept schedule changes from members that come with a booking write.
+  bookingId?: string;
+}
@@ -0,0 +1,391 @@
+// src/i18n/en.ts
+//
+// English messages, the reference catalog: its keys and parameter lists define Messages.
+
+export const en = {
+  // --- Units ---
+  'units.hours': (hours: number) => `${hours} h`,
+  'units.minutes': (minutes: number) => `${minutes} min`,
+  'units.hoursMinutes': (hours: number, minutes: number) => `${hours} h ${minutes} min`,
+
+  // --- Labels ---
+  'bookingStatus.pending': 'pending',
+  'bookingStatus.booked': 'booked',
+  'bookingStatus.rejected': 'rejected',
+  'bookingStatus.cancelled': 'cancelled',
+  'bookingStatus.noShow': 'no-show',
+  'equipmentStatus.available': 'Available',
+  'equipmentStatus.maintenance': 'Under Maintenance',
+  'equipmentStatus.retired': 'Retired',
+  'role.admin': 'Admin',
+  'role.labManager': 'Lab Manager',
+  'role.member': 'Member',
+  'role.viewer': 'Viewer',
+  'quota.maxHoursPerWeek': 'Hours / week',
+  'quota.maxActiveBookings': 'Upcoming bookings',
+  'quota.maxAdvanceDays': 'Days ahead',
+  'quota.cooldownMinutes': 'Cooldown (min)',
+  'auditAction.created': 'Created',
+  'auditAction.updated': 'Updated',
+  'auditAction.deleted': 'Deleted',
+  'auditAction.archived': 'Archived',
+  'auditAction.restored': 'Restored',
+  'auditAction.rescheduled': 'Rescheduled',
+  'auditAction.cancelled': 'Cancelled',
+  'auditAction.approved': 'Approved',
+  'auditAction.rejected': 'Rejected',
+  'auditAction.checkedIn': 'Checked in',
+  'auditAction.checkedOut': 'Checked out',
+  'auditAction.noShow': 'No-show',
+  'auditTarget.equipment': 'Equipment',
+  'auditTarget.booking': 'Booking',
+  'auditTarget.blackout': 'Blackout',
+  'auditTarget.settings': 'Lab settings',
+
+  // --- Booking rules ---
+  'rules.endBeforeStart': 'End time must be after start time.',
+  'rules.startInPast': 'Booking start time cannot be in the past.',
+  'rules.invalidInterval': 'Repeat interval must be a whole number of at least 1.',
+  'rules.invalidCount': 'Number of occurrences must be at least 1.',
+  'rules.untilBeforeStart': 'The repeat end date must be on or after the start date.',
+  'rules.notBookable': (name: string, status: string) => `${name} is ${status.toLowerCase()} and cannot be booked.`,
+  'rules.minDuration': (name: string, duration: string) => `Bookings for ${name} must be at least ${duration}.`,
+  'rules.maxDuration': (name: string, duration: string) => `Bookings for ${name} can be at most ${duration}.`,
+  'rules.slotBoundary': (name: string, slot: string) => `Bookings for ${name} must start and end on ${slot} boundaries.`,
+  'rules.leadTime': (name: string, hours: number) => `Bookings for ${name} must be made at least ${hours} hours in advance.`,
+  'rules.holiday': (date: string, name: string) => `The lab is closed on ${date} (${name}).`,
+  'rules.openOnly': (name: string, open: string, close: string, weekday: string) => `${name} is only open ${open}–${close} on ${weekday}s.`,
+  'rules.closedOn': (name: string, weekday: string) => `${name} is closed on ${weekday}s.`,
+  'rules.blackout': (name: string, from: string, to: string, reason?: string) => `${name} is unavailable from ${from} to ${to}${reason ? ` (${reason})` : ''}.`,
+  'rules.noShowLimit': (limit: number, days: number) => `You missed ${limit} or more bookings in the last ${days} days, so you cannot make new bookings. Please contact a lab manager.`,
+  'rules.maxAdvanceDays': (name: string, days: number) => `${name} can be booked at most ${days} days in advance.`,
+  'rules.maxActiveBookings': (name: string, count: number) => `You can have at most ${count} upcoming ${count === 1 ? 'booking' : 'bookings'} for ${name}.`,
+  'rules.maxHoursPerWeek': (name: string, max: number, week: string, hours: number) => `You can book ${name} for at most ${max} hours per week; the week of ${week} would have ${hours}.`,
+  'rules.cooldown': (name: string, gap: string) => `Leave at least ${gap} between your sessions on ${name}.`,
+
+  // --- Booking service ---
+  'service.occurrencesClash': (clashes: number, total: number) => `${clashes} of ${total} occurrences cannot be booked.`,
+  'service.slotTaken': 'This equipment is already booked for this time slot.',
+  'service.cannotBook': 'Your account does not have permission to book equipment.',
+  'service.tooManyOccurrences': (max: number) => `A recurring booking can have at most ${max} occurrences.`,
+  'service.notYourBooking': 'You can only change your own bookings.',
+  'service.notChangeable': 'Only pending or confirmed bookings can be changed.',
+  'service.rejectionReasonRequired': 'Please give a reason for the rejection.',
+  'service.alreadyWaitlisted': 'You are already on the waitlist for this time slot.',
+  'service.archiveReasonRequired': (count: number) => `${count} ${count === 1 ? 'booking' : 'bookings'} will be cancelled, so a reason is required.`,
+
+  // --- Common ---
+  'common.equipment': 'Equipment',
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.status': 'Status',
+  'common.actions': 'Actions',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+  'common.edit': 'Edit',
+  'common.notAvailable': 'N/A',
+  'common.add': 'Add',
+  'common.saveChanges': 'Save Changes',
+  'common.selectEquipment': 'Select equipment',
+  'common.customSuffix': ' (custom)',
+  'common.archivedSuffix': ' (archived)',
+
+  // --- Reports ---
+  'reports.weekOf': (date: string) => `Week of ${date}`,
+  'reports.allEquipment': 'All equipment',
+  'reports.equipmentTitle': 'Booked hours per equipment',
+  'reports.userTitle': 'Booked hours per user',
+  'reports.monthTitle': 'Booked hours per month',
+  'reports.weekTitle': 'Booked hours per week',
+  'reports.heatmapTitle': 'Booked hours by weekday and hour',
+  'reports.bookings': 'Bookings',
+  'reports.bookedHours': 'Booked hours',
+  'reports.openingHours': 'Opening hours',
+  'reports.utilisation': 'Utilisation',
+  'reports.cancelled': 'Cancelled',
+  'reports.cancellationRate': 'Cancellation rate',
+  'reports.user': 'User',
+  'reports.month': 'Month',
+  'reports.week': 'Week',
+  'reports.weekday': 'Weekday',
+  'reports.xlsxMissing': 'the spreadsheet library did not load.',
+
+  // --- Audit log ---
+  'audit.title': 'Audit log',
+  'audit.time': 'Time',
+  'audit.actor': 'Actor',
+  'audit.actorId': 'Actor ID',
+  'audit.action': 'Action',
+  'audit.targetType': 'Target type',
+  'audit.target': 'Target',
+  'audit.targetId': 'Target ID',
+  'audit.changes': 'Changes',
+
+  // --- Errors ---
+  'errors.loadAuditLog': (error: string) => `Failed to load the audit log. Error: ${error}`,
+  'errors.rescheduleBooking': (error: string) => `Failed to reschedule booking. Error: ${error}`,
+  'errors.createBooking': (error: string) => `Failed to create booking. Error: ${error}`,
+  'errors.cancelBooking': (error: string) => `Failed to cancel booking. Error: ${error}`,
+  'errors.checkIn': (error: string) => `Failed to check in. Error: ${error}`,
+  'errors.checkOut': (error: string) => `Failed to check out. Error: ${error}`,
+  'errors.joinWaitlist': (error: string) => `Failed to join the waitlist. Error: ${error}`,
+  'errors.leaveWaitlist': (error: string) => `Failed to leave the waitlist. Error: ${error}`,
+  'errors.exportXlsx': (error: string) => `Failed to export XLSX. Error: ${error}`,
+  'errors.exportAuditLog': (error: string) => `Failed to export the audit log. Error: ${error}`,
+  'errors.createFeed': (error: string) => `Failed to create calendar feed. Error: ${error}`,
+  'errors.revokeFeed': (error: string) => `Failed to revoke calendar feed. Error: ${error}`,
+  'errors.copyFeedUrl': (error: string) => `Failed to copy the feed URL. Error: ${error}`,
+  'errors.approveBooking': (error: string) => `Failed to approve booking. Error: ${error}`,
+  'errors.rejectBooking': (error: string) => `Failed to reject booking. Error: ${error}`,
+  'errors.addEquipment': (error: string) => `Failed to add equipment. Error: ${error}`,
+  'errors.updateEquipment': (error: string) => `Failed to update equipment. Error: ${error}`,
+  'errors.archiveEquipment': (error: string) => `Failed to archive equipment. Error: ${error}`,
+  'errors.restoreEquipment': (error: string) => `Failed to restore equipment. Error: ${error}`,
+  'errors.saveOpeningHours': (error: string) => `Failed to save opening hours. Error: ${error}`,
+  'errors.saveTimeZone': (error: string) => `Failed to save the time zone. Error: ${error}`,
+  'errors.resetOpeningHours': (error: string) => `Failed to reset opening hours. Error: ${error}`,
+  'errors.addHoliday': (error: string) => `Failed to add holiday. Error: ${error}`,
+  'errors.removeHoliday': (error: string) => `Failed to remove holiday. Error: ${error}`,
+  'errors.addBlackout': (error: string) => `Failed to add blackout. Error: ${error}`,
+  'errors.removeBlackout': (error: string) => `Failed to remove blackout. Error: ${error}`,
+  'errors.saveQuotas': (error: string) => `Failed to save quotas. Error: ${error}`,
+  'errors.resetQuotas': (error: string) => `Failed to reset quotas. Error: ${error}`,
+  'errors.saveNoShowPolicy': (error: string) => `Failed to save no-show policy. Error: ${error}`,
+  'errors.updateNoShow': (error: string) => `Failed to update no-show. Error: ${error}`,
+  'errors.saveNotificationSettings': (error: string) => `Failed to save notification settings. Error: ${error}`,
+  'errors.updateRole': (error: string) => `Failed to update role. Error: ${error}`,
+  'errors.signInToChange': 'You must be signed in to change bookings.',
+  'errors.bookingGone': 'This booking no longer exists.',
+  'errors.chooseFeedEquipment': 'Choose the equipment for the feed.',
+  'errors.fillAllFields': 'Please fill out all fields.',
+  'errors.invalidBookingRules': 'Booking rules cannot be negative, and the slot length must be positive.',
+  'errors.maxBelowMin': 'Maximum duration must be at least the minimum duration.',
+  'errors.photoNotImage': 'The equipment photo must be an image file.',
+  'errors.chooseArchiveTarget': 'Choose the equipment to move the bookings to.',
+  'errors.closeBeforeOpen': 'Closing time must be after opening time.',
+  'errors.invalidTimeZone': (timeZone: string) => `"${timeZone}" is not a known time zone. Use an IANA name such as Asia/Shanghai.`,
+  'errors.holidayIncomplete': 'Please enter a date and a name for the holiday.',
+  'errors.blackoutIncomplete': 'Please choose the equipment and the start and end of the blackout.',
+  'errors.blackoutEndBeforeStart': 'The blackout must end after it starts.',
+  'errors.invalidQuotas': 'Quotas must be whole numbers of at least 0.',
+  'errors.invalidNoShowPolicy': 'Grace period and limit must be whole numbers of at least 0, and the window at least 1 day.',
+  'errors.revokeOwnAdmin': 'You cannot revoke your own admin role.',
+  'common.name': 'Name',
+
+  // --- Header ---
+  'header.title': 'SEG CMF Lab Equipment Management Platform',
+  'header.loading': 'Loading Platform...',
+  'header.language': 'Language',
+  'header.profilePhoto': 'User Profile',
+  'header.signedInAs': 'Signed in as',
+  'header.signOut': 'Sign Out',
+  'header.signIn': 'Sign In',
+  'header.defaultUserName': 'User',
+
+  // --- Calendar ---
+  'calendar.title': 'Equipment Calendar',
+  'calendar.allEquipment': 'All equipment (by day)',
+  'calendar.previousDay': 'Previous day',
+  'calendar.today': 'Today',
+  'calendar.nextDay': 'Next day',
+  'calendar.hint': 'Drag across free time to book it. Drag or resize your own bookings to reschedule them.',
+  'calendar.timeZoneNote': (timeZone: string) => `Times are shown in the lab time zone (${timeZone}).`,
+  'calendar.unavailable': 'Unavailable',
+
+  // --- Approvals & waitlist ---
+  'approvals.title': 'Pending Approvals',
+  'approvals.requestedBy': 'Requested By',
+  'approvals.empty': 'No bookings are waiting for approval.',
+  'approvals.approve': 'Approve',
+  'approvals.reject': 'Reject',
+  'waitlist.title': 'Waitlist',
+  'waitlist.joined': 'Joined',
+
+  // --- Equipment form ---
+  'equipmentForm.name': 'Name',
+  'equipmentForm.description': 'Description',
+  'equipmentForm.category': 'Category',
+  'equipmentForm.location': 'Location / Room',
+  'equipmentForm.responsiblePerson': 'Responsible Person',
+  'equipmentForm.photo': 'Photo',
+  'equipmentForm.bookingRules': 'Booking Rules',
+  'equipmentForm.minDuration': 'Min duration (min)',
+  'equipmentForm.maxDuration': 'Max duration (min, 0 = none)',
+  'equipmentForm.slotLength': 'Slot length (min)',
+  'equipmentForm.leadTime': 'Lead time (hours)',
+  'equipmentForm.requiresApproval': 'Bookings require approval',
+
+  // --- Manage equipment ---
+  'manageEquipment.title': 'Manage Equipment',
+  'manageEquipment.add': 'Add Equipment',
+  'manageEquipment.location': 'Location',
+  'manageEquipment.responsible': 'Responsible',
+  'manageEquipment.approval': 'Approval',
+  'manageEquipment.noMax': 'no max',
+  'manageEquipment.slotsAndNotice': (slot: string, leadTimeHours: number) => `${slot} slots, ${leadTimeHours} h notice`,
+  'manageEquipment.required': 'Required',
+  'manageEquipment.archive': 'Archive',
+  'manageEquipment.archived': 'Archived',
+  'manageEquipment.archivedAt': (when: string) => `archived ${when}`,
+  'manageEquipment.restore': 'Restore',
+  'equipmentModal.addTitle': 'Add New Equipment',
+  'equipmentModal.editTitle': 'Edit Equipment',
+  'archiveModal.title': 'Archive Equipment',
+  'archiveModal.intro': (name: string) => `"${name}" will no longer be bookable. Past bookings stay in the reports.`,
+  'archiveModal.noUpcoming': 'It has no upcoming bookings.',
+  'archiveModal.affected': (count: number) => `${count} upcoming ${count === 1 ? 'booking is' : 'bookings are'} affected.`,
+  'archiveModal.cancelThem': 'Cancel them',
+  'archiveModal.moveThem': 'Move them to',
+  'archiveModal.clashes': (count: number) => `${count} of them clash with bookings on the new equipment or fall outside its opening hours and will be cancelled.`,
+  'archiveModal.reason': 'Reason sent to the affected users',
+
+  // --- Opening hours & closures ---
+  'hours.title': 'Opening Hours & Closures',
+  'hours.timeZone': 'Lab Time Zone',
+  'hours.timeZoneHint': (browserTimeZone: string) => `Opening hours, holidays, blackouts and booking times are read in this time zone, wherever users book from. While it is unset, each browser uses its own (${browserTimeZone}).`,
+  'hours.saveTimeZone': 'Save Time Zone',
+  'hours.openingHours': 'Opening Hours',
+  'hours.wholeLab': 'Whole lab',
+  'hours.open': 'Open',
+  'hours.closed': 'Closed',
+  'hours.useLabHours': 'Use Lab Hours',
+  'hours.saveHours': 'Save Hours',
+  'hours.holidays': 'Holidays',
+  'hours.noHolidays': 'No holidays configured.',
+  'hours.blackouts': 'Maintenance Blackouts',
+  'hours.noBlackouts': 'No blackouts scheduled.',
+  'hours.unknownEquipment': 'Unknown equipment',
+  'hours.reason': 'Reason',
+  'hours.labTimeTitle': (timeZone: string) => `Lab time (${timeZone})`,
+  'hours.addBlackout': 'Add Blackout',
+
+  // --- Quotas & no-shows ---
+  'quotas.title': 'Booking Quotas',
+  'quotas.labDefaults': 'Lab defaults',
+  'quotas.hint': 'Limits apply per user and device; 0 means no limit. Lab managers can override them when booking.',
+  'quotas.useLabDefaults': 'Use Lab Defaults',
+  'quotas.save': 'Save Quotas',
+  'noShows.title': 'No-Shows',
+  'noShows.policy': 'Policy',
+  'noShows.policyHint': 'Confirmed bookings that are not checked in within the grace period are released as no-shows. Users who reach the limit within the window cannot make new bookings; 0 turns the restriction off.',
+  'noShows.graceMinutes': 'Grace period (minutes)',
+  'noShows.limit': 'Limit',
+  'noShows.windowDays': 'Window (days)',
+  'noShows.savePolicy': 'Save Policy',
+  'noShows.inWindow': 'In Window',
+  'noShows.allTime': 'All Time',
+  'noShows.lastNoShow': 'Last No-Show',
+  'noShows.empty': 'No no-shows recorded.',
+  'noShows.restricted': 'Restricted',
+  'noShows.history': 'History',
+  'noShows.historyTitle': (name: string) => `No-Shows: ${name}`,
+  'noShows.excusedSuffix': ' · excused',
+  'noShows.countAgain': 'Count Again',
+  'noShows.excuse': 'Excuse',
+
+  // --- Reports, users & audit ---
+  'reports.title': 'Reports',
+  'reports.groupBy': 'Group by',
+  'reports.empty': 'No bookings in this range.',
+  'users.title': 'Manage Users',
+  'users.email': 'Email',
+  'users.role': 'Role',
+  'audit.everything': 'Everything',
+  'audit.allActions': 'All actions',
+  'audit.search': 'Search',
+  'audit.searchPlaceholder': 'User, equipment or ID',
+  'audit.empty': 'No changes recorded in this range.',
+
+  // --- Equipment & my bookings ---
+  'equipment.title': 'Available Equipment',
+  'equipment.allCategories': 'All categories',
+  'equipment.contact': (person: string) => `Contact: ${person}`,
+  'equipment.requiresApproval': 'Bookings require lab manager approval',
+  'equipment.viewOnly': 'Your account has view-only access',
+  'equipment.signInToBook': 'Sign in to book',
+  'equipment.bookNow': 'Book Now',
+  'bookings.history': 'Change history',
+  'myBookings.title': 'My Bookings',
+  'myBookings.downloadIcs': 'Download .ics',
+  'myBookings.icsCalendarName': 'My equipment bookings',
+  'ics.pendingSummary': (equipment: string) => `${equipment} (pending approval)`,
+  'ics.bookedBy': (name: string) => `Booked by ${name}`,
+  'ics.equipmentCalendarName': (equipment: string) => `${equipment} bookings`,
+  'myBookings.recurring': 'Recurring',
+  'myBookings.fromWaitlist': 'From waitlist',
+  'myBookings.equipmentRemoved': 'Equipment removed',
+  'myBookings.used': (from: string, to: string) => `Used ${from} – ${to}`,
+  'myBookings.now': 'now',
+  'myBookings.checkIn': 'Check in',
+  'myBookings.checkOut': 'Check out',
+  'myWaitlist.title': 'My Waitlist',
+  'myWaitlist.hint': 'You are booked automatically if the whole time slot becomes free.',
+  'myWaitlist.leave': 'Leave',
+
+  // --- Calendar feeds & notifications ---
+  'feeds.title': 'Calendar Feeds',
+  'feeds.hint': 'Subscribe to these URLs in Outlook or Google Calendar. Anyone with a URL can read its feed, so revoke feeds you no longer use.',
+  'feeds.newUserFeed': 'New My Bookings Feed',
+  'feeds.newEquipmentFeed': 'New Equipment Feed',
+  'feeds.feed': 'Feed',
+  'feeds.url': 'URL',
+  'feeds.created': 'Created',
+  'feeds.myBookings': 'My bookings',
+  'feeds.copy': 'Copy',
+  'feeds.revoke': 'Revoke',
+  'notifications.title': 'Email Notifications',
+  'notifications.confirmations': 'Booking confirmations',
+  'notifications.cancellations': 'Cancellation notices',
+  'notifications.equipmentChanges': 'Changes to equipment I have booked',
+  'notifications.reminders': 'Reminders',
+  'notifications.hours': (hours: number) => `${hours} ${hours === 1 ? 'hour' : 'hours'}`,
+  'notifications.beforeStart': 'before a booking starts',
+
+  // --- Booking modal ---
+  'booking.title': (name: string) => `Book "${name}"`,
+  'booking.editTitle': 'Edit Booking',
+  'booking.minimum': (duration: string) => `${duration} minimum`,
+  'booking.maximum': (duration: string) => `${duration} maximum`,
+  'booking.leadTime': (hours: number) => `book ${hours} h ahead`,
+  'booking.separator': ', ',
+  'booking.timeZoneNote': (timeZone: string) => `Times are in the lab time zone (${timeZone}).`,
+  'booking.startDate': 'Start Date',
+  'booking.startTime': 'Start Time',
+  'booking.endDate': 'End Date',
+  'booking.endTime': 'End Time',
+  'booking.repeat': 'Repeat',
+  'booking.doesNotRepeat': 'Does not repeat',
+  'booking.daily': 'Daily',
+  'booking.weekly': 'Weekly',
+  'booking.every': 'Every',
+  'booking.days': 'day(s)',
+  'booking.weeks': 'week(s)',
+  'booking.until': 'Until',
+  'booking.occurrences': 'Number of occurrences',
+  'booking.overrideQuotas': 'Override booking quotas',
+  'booking.clashesWith': (from: string, to: string) => `Clashes with ${from} – ${to}`,
+  'booking.free': 'Free',
+  'booking.joinWaitlist': 'Join Waitlist',
+  'booking.bookFreeOnly': (count: number) => `Book ${count} Free Only`,
+  'booking.request': 'Request Booking',
+  'booking.confirm': 'Confirm Booking',
+
+  // --- Other modals ---
+  'rejectModal.title': 'Reject Booking',
+  'rejectModal.question': (user: string, equipment: string) => `Reject ${user}'s request for "${equipment}"?`,
+  'details.title': 'Booking Details',
+  'details.bookedBy': 'Booked by',
+  'details.changeHistory': 'Change History',
+  'details.cancelBooking': 'Cancel Booking',
+  'cancelModal.title': 'Confirm Cancellation',
+  'cancelModal.question': (equipment: string) => `Cancel booking for "${equipment}"?`,
+  'cancelModal.questionOn': (equipment: string, when: string) => `Cancel booking for "${equipment}" on ${when}?`,
+  'cancelModal.seriesHint': 'This booking is part of a recurring series. You can cancel just this occurrence or every upcoming occurrence in the series.',
+  'cancelModal.no': 'No',
+  'cancelModal.occurrence': 'This Occurrence',
+  'cancelModal.series': 'Entire Series',
+  'cancelModal.yes': 'Yes, Cancel',
+};
+
+export type Messages = typeof en;
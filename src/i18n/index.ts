@@ -0,0 +1,55 @@
+// src/i18n/index.ts
+//
+// UI language. Messages live in one catalog per locale; en is the reference and the other
+// catalogs must provide every key. The current locale is module state so that the data layer's
+// rule messages follow the language chosen in the UI.
+
+import { en, type Messages } from './en';
+import { zhCN } from './zh-CN';
+
+export type Locale = 'en' | 'zh-CN';
+export type MessageKey = keyof Messages;
+
+export const LOCALES: Locale[] = ['en', 'zh-CN'];
+// Used when nothing says otherwise, e.g. for calendar feeds created before feeds stored a locale.
+export const DEFAULT_LOCALE: Locale = 'en';
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+export const LOCALE_NAMES: Record<Locale, string> = { en: 'English', 'zh-CN': '简体中文' };
+
+const CATALOGS: Record<Locale, Messages> = { en, 'zh-CN': zhCN };
+const STORAGE_KEY = 'locale';
+
+// The saved choice, else the browser's language, else English.
+const initialLocale = (): Locale => {
+  const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  return typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('zh') ? 'zh-CN' : DEFAULT_LOCALE;
+};
+
+let currentLocale = initialLocale();
+
+export const getLocale = () => currentLocale;
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, locale);
+};
+
+type MessageArgs<K extends MessageKey> = Messages[K] extends (...args: infer A) => string ? A : [];
+
+// The message for key in locale; messages with parameters take them as arguments. Code that
+// serves several users at once, such as the calendar feed server, passes their locale.
+export const translate = <K extends MessageKey>(locale: Locale, key: K, ...args: MessageArgs<K>): string => {
+  const message = CATALOGS[locale][key] as string | ((...args: MessageArgs<K>) => string);
+  return typeof message === 'function' ? message(...args) : message;
+};
+
+// The message for key in the current locale.
+export const t = <K extends MessageKey>(key: K, ...args: MessageArgs<K>): string => translate(currentLocale, key, ...args);
+
+// Dates and times in the lab's time zone, in the conventions of the current locale.
+export const formatInTimeZone = (date: Date, timeZone: string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }) =>
+  new Intl.DateTimeFormat(currentLocale, { ...options, timeZone }).format(date);
+
+// 0 is Sunday, as in Date.getDay(). 1 January 2023 was a Sunday.
+export const weekdayName = (weekday: number, width: 'long' | 'short' = 'long') =>
+  new Intl.DateTimeFormat(currentLocale, { weekday: width, timeZone: 'UTC' }).format(new Date(Date.UTC(2023, 0, 1 + weekday)));
@@ -0,0 +1,391 @@
+// src/i18n/zh-CN.ts
+//
+// Simplified Chinese messages.
+
+import type { Messages } from './en';
+
+export const zhCN: Messages = {
+  // --- Units ---
+  'units.hours': (hours: number) => `${hours} 小时`,
+  'units.minutes': (minutes: number) => `${minutes} 分钟`,
+  'units.hoursMinutes': (hours: number, minutes: number) => `${hours} 小时 ${minutes} 分钟`,
+
+  // --- Labels ---
+  'bookingStatus.pending': '待审批',
+  'bookingStatus.booked': '已预约',
+  'bookingStatus.rejected': '已拒绝',
+  'bookingStatus.cancelled': '已取消',
+  'bookingStatus.noShow': '未到场',
+  'equipmentStatus.available': '可用',
+  'equipmentStatus.maintenance': '维护中',
+  'equipmentStatus.retired': '已停用',
+  'role.admin': '管理员',
+  'role.labManager': '实验室经理',
+  'role.member': '成员',
+  'role.viewer': '访客',
+  'quota.maxHoursPerWeek': '每周小时数',
+  'quota.maxActiveBookings': '未来预约数',
+  'quota.maxAdvanceDays': '提前天数',
+  'quota.cooldownMinutes': '间隔（分钟）',
+  'auditAction.created': '创建',
+  'auditAction.updated': '更新',
+  'auditAction.deleted': '删除',
+  'auditAction.archived': '归档',
+  'auditAction.restored': '恢复',
+  'auditAction.rescheduled': '改期',
+  'auditAction.cancelled': '取消',
+  'auditAction.approved': '批准',
+  'auditAction.rejected': '拒绝',
+  'auditAction.checkedIn': '签到',
+  'auditAction.checkedOut': '签退',
+  'auditAction.noShow': '未到场',
+  'auditTarget.equipment': '设备',
+  'auditTarget.booking': '预约',
+  'auditTarget.blackout': '停用时段',
+  'auditTarget.settings': '实验室设置',
+
+  // --- Booking rules ---
+  'rules.endBeforeStart': '结束时间必须晚于开始时间。',
+  'rules.startInPast': '预约开始时间不能早于当前时间。',
+  'rules.invalidInterval': '重复间隔必须是不小于 1 的整数。',
+  'rules.invalidCount': '重复次数至少为 1。',
+  'rules.untilBeforeStart': '重复结束日期不能早于开始日期。',
+  'rules.notBookable': (name: string, status: string) => `${name}当前状态为“${status}”，无法预约。`,
+  'rules.minDuration': (name: string, duration: string) => `${name}的预约时长不能少于 ${duration}。`,
+  'rules.maxDuration': (name: string, duration: string) => `${name}的预约时长不能超过 ${duration}。`,
+  'rules.slotBoundary': (name: string, slot: string) => `${name}的预约必须以 ${slot} 为单位开始和结束。`,
+  'rules.leadTime': (name: string, hours: number) => `${name}须至少提前 ${hours} 小时预约。`,
+  'rules.holiday': (date: string, name: string) => `实验室在 ${date}（${name}）闭馆。`,
+  'rules.openOnly': (name: string, open: string, close: string, weekday: string) => `${name}在${weekday}仅开放 ${open}–${close}。`,
+  'rules.closedOn': (name: string, weekday: string) => `${name}在${weekday}不开放。`,
+  'rules.blackout': (name: string, from: string, to: string, reason?: string) => `${name}在 ${from} 至 ${to} 期间不可用${reason ? `（${reason}）` : ''}。`,
+  'rules.noShowLimit': (limit: number, days: number) => `你在过去 ${days} 天内有 ${limit} 次或以上预约未到场，暂时无法新建预约。请联系实验室经理。`,
+  'rules.maxAdvanceDays': (name: string, days: number) => `${name}最多只能提前 ${days} 天预约。`,
+  'rules.maxActiveBookings': (name: string, count: number) => `你在${name}上最多只能有 ${count} 个未来预约。`,
+  'rules.maxHoursPerWeek': (name: string, max: number, week: string, hours: number) => `${name}每周最多可预约 ${max} 小时；${week} 当周将达到 ${hours} 小时。`,
+  'rules.cooldown': (name: string, gap: string) => `你在${name}上的两次使用之间至少需间隔 ${gap}。`,
+
+  // --- Booking service ---
+  'service.occurrencesClash': (clashes: number, total: number) => `${total} 次重复中有 ${clashes} 次无法预约。`,
+  'service.slotTaken': '该设备在此时段已被预约。',
+  'service.cannotBook': '你的账号没有预约设备的权限。',
+  'service.tooManyOccurrences': (max: number) => `重复预约最多只能有 ${max} 次。`,
+  'service.notYourBooking': '你只能修改自己的预约。',
+  'service.notChangeable': '只有待审批或已确认的预约可以修改。',
+  'service.rejectionReasonRequired': '请填写拒绝原因。',
+  'service.alreadyWaitlisted': '你已在该时段的候补名单中。',
+  'service.archiveReasonRequired': (count: number) => `将取消 ${count} 个预约，因此需要填写原因。`,
+
+  // --- Common ---
+  'common.equipment': '设备',
+  'common.from': '开始',
+  'common.to': '结束',
+  'common.status': '状态',
+  'common.actions': '操作',
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.remove': '移除',
+  'common.edit': '编辑',
+  'common.notAvailable': '无',
+  'common.add': '添加',
+  'common.saveChanges': '保存更改',
+  'common.selectEquipment': '选择设备',
+  'common.customSuffix': '（自定义）',
+  'common.archivedSuffix': '（已归档）',
+
+  // --- Reports ---
+  'reports.weekOf': (date: string) => `${date} 当周`,
+  'reports.allEquipment': '全部设备',
+  'reports.equipmentTitle': '各设备预约时长',
+  'reports.userTitle': '各用户预约时长',
+  'reports.monthTitle': '每月预约时长',
+  'reports.weekTitle': '每周预约时长',
+  'reports.heatmapTitle': '按星期和小时统计的预约时长',
+  'reports.bookings': '预约数',
+  'reports.bookedHours': '预约时长',
+  'reports.openingHours': '开放时长',
+  'reports.utilisation': '利用率',
+  'reports.cancelled': '已取消',
+  'reports.cancellationRate': '取消率',
+  'reports.user': '用户',
+  'reports.month': '月份',
+  'reports.week': '周',
+  'reports.weekday': '星期',
+  'reports.xlsxMissing': '电子表格组件未能加载。',
+
+  // --- Audit log ---
+  'audit.title': '审计日志',
+  'audit.time': '时间',
+  'audit.actor': '操作人',
+  'audit.actorId': '操作人 ID',
+  'audit.action': '操作',
+  'audit.targetType': '对象类型',
+  'audit.target': '对象',
+  'audit.targetId': '对象 ID',
+  'audit.changes': '变更',
+
+  // --- Errors ---
+  'errors.loadAuditLog': (error: string) => `加载审计日志失败。错误：${error}`,
+  'errors.rescheduleBooking': (error: string) => `预约改期失败。错误：${error}`,
+  'errors.createBooking': (error: string) => `创建预约失败。错误：${error}`,
+  'errors.cancelBooking': (error: string) => `取消预约失败。错误：${error}`,
+  'errors.checkIn': (error: string) => `签到失败。错误：${error}`,
+  'errors.checkOut': (error: string) => `签退失败。错误：${error}`,
+  'errors.joinWaitlist': (error: string) => `加入候补名单失败。错误：${error}`,
+  'errors.leaveWaitlist': (error: string) => `退出候补名单失败。错误：${error}`,
+  'errors.exportXlsx': (error: string) => `导出 XLSX失败。错误：${error}`,
+  'errors.exportAuditLog': (error: string) => `导出审计日志失败。错误：${error}`,
+  'errors.createFeed': (error: string) => `创建日历订阅失败。错误：${error}`,
+  'errors.revokeFeed': (error: string) => `撤销日历订阅失败。错误：${error}`,
+  'errors.copyFeedUrl': (error: string) => `复制订阅链接失败。错误：${error}`,
+  'errors.approveBooking': (error: string) => `批准预约失败。错误：${error}`,
+  'errors.rejectBooking': (error: string) => `拒绝预约失败。错误：${error}`,
+  'errors.addEquipment': (error: string) => `添加设备失败。错误：${error}`,
+  'errors.updateEquipment': (error: string) => `更新设备失败。错误：${error}`,
+  'errors.archiveEquipment': (error: string) => `归档设备失败。错误：${error}`,
+  'errors.restoreEquipment': (error: string) => `恢复设备失败。错误：${error}`,
+  'errors.saveOpeningHours': (error: string) => `保存开放时间失败。错误：${error}`,
+  'errors.saveTimeZone': (error: string) => `保存时区失败。错误：${error}`,
+  'errors.resetOpeningHours': (error: string) => `重置开放时间失败。错误：${error}`,
+  'errors.addHoliday': (error: string) => `添加节假日失败。错误：${error}`,
+  'errors.removeHoliday': (error: string) => `移除节假日失败。错误：${error}`,
+  'errors.addBlackout': (error: string) => `添加停用时段失败。错误：${error}`,
+  'errors.removeBlackout': (error: string) => `移除停用时段失败。错误：${error}`,
+  'errors.saveQuotas': (error: string) => `保存配额失败。错误：${error}`,
+  'errors.resetQuotas': (error: string) => `重置配额失败。错误：${error}`,
+  'errors.saveNoShowPolicy': (error: string) => `保存未到场规则失败。错误：${error}`,
+  'errors.updateNoShow': (error: string) => `更新未到场记录失败。错误：${error}`,
+  'errors.saveNotificationSettings': (error: string) => `保存通知设置失败。错误：${error}`,
+  'errors.updateRole': (error: string) => `更新角色失败。错误：${error}`,
+  'errors.signInToChange': '请先登录再修改预约。',
+  'errors.bookingGone': '该预约已不存在。',
+  'errors.chooseFeedEquipment': '请选择要订阅的设备。',
+  'errors.fillAllFields': '请填写所有字段。',
+  'errors.invalidBookingRules': '预约规则不能为负数，时段长度必须大于 0。',
+  'errors.maxBelowMin': '最长时长不能小于最短时长。',
+  'errors.photoNotImage': '设备照片必须是图片文件。',
+  'errors.chooseArchiveTarget': '请选择要将预约转移到的设备。',
+  'errors.closeBeforeOpen': '关闭时间必须晚于开放时间。',
+  'errors.invalidTimeZone': (timeZone: string) => `“${timeZone}”不是有效的时区，请使用 IANA 名称，例如 Asia/Shanghai。`,
+  'errors.holidayIncomplete': '请输入节假日的日期和名称。',
+  'errors.blackoutIncomplete': '请选择设备以及停用时段的开始和结束时间。',
+  'errors.blackoutEndBeforeStart': '停用时段的结束时间必须晚于开始时间。',
+  'errors.invalidQuotas': '配额必须是不小于 0 的整数。',
+  'errors.invalidNoShowPolicy': '宽限时间和次数上限必须是不小于 0 的整数，统计窗口至少为 1 天。',
+  'errors.revokeOwnAdmin': '你不能撤销自己的管理员角色。',
+  'common.name': '名称',
+
+  // --- Header ---
+  'header.title': 'SEG CMF 实验室设备管理平台',
+  'header.loading': '平台加载中……',
+  'header.language': '语言',
+  'header.profilePhoto': '用户头像',
+  'header.signedInAs': '当前登录',
+  'header.signOut': '退出登录',
+  'header.signIn': '登录',
+  'header.defaultUserName': '用户',
+
+  // --- Calendar ---
+  'calendar.title': '设备日历',
+  'calendar.allEquipment': '全部设备（按日）',
+  'calendar.previousDay': '前一天',
+  'calendar.today': '今天',
+  'calendar.nextDay': '后一天',
+  'calendar.hint': '在空闲时段上拖动即可预约；拖动或调整自己的预约即可改期。',
+  'calendar.timeZoneNote': (timeZone: string) => `时间按实验室时区（${timeZone}）显示。`,
+  'calendar.unavailable': '不可用',
+
+  // --- Approvals & waitlist ---
+  'approvals.title': '待审批预约',
+  'approvals.requestedBy': '申请人',
+  'approvals.empty': '没有待审批的预约。',
+  'approvals.approve': '批准',
+  'approvals.reject': '拒绝',
+  'waitlist.title': '候补名单',
+  'waitlist.joined': '加入时间',
+
+  // --- Equipment form ---
+  'equipmentForm.name': '名称',
+  'equipmentForm.description': '描述',
+  'equipmentForm.category': '类别',
+  'equipmentForm.location': '位置 / 房间',
+  'equipmentForm.responsiblePerson': '负责人',
+  'equipmentForm.photo': '照片',
+  'equipmentForm.bookingRules': '预约规则',
+  'equipmentForm.minDuration': '最短时长（分钟）',
+  'equipmentForm.maxDuration': '最长时长（分钟，0 = 不限）',
+  'equipmentForm.slotLength': '时段长度（分钟）',
+  'equipmentForm.leadTime': '提前预约（小时）',
+  'equipmentForm.requiresApproval': '预约需要审批',
+
+  // --- Manage equipment ---
+  'manageEquipment.title': '设备管理',
+  'manageEquipment.add': '添加设备',
+  'manageEquipment.location': '位置',
+  'manageEquipment.responsible': '负责人',
+  'manageEquipment.approval': '审批',
+  'manageEquipment.noMax': '不限上限',
+  'manageEquipment.slotsAndNotice': (slot: string, leadTimeHours: number) => `时段 ${slot}，需提前 ${leadTimeHours} 小时`,
+  'manageEquipment.required': '需要',
+  'manageEquipment.archive': '归档',
+  'manageEquipment.archived': '已归档',
+  'manageEquipment.archivedAt': (when: string) => `归档于 ${when}`,
+  'manageEquipment.restore': '恢复',
+  'equipmentModal.addTitle': '添加新设备',
+  'equipmentModal.editTitle': '编辑设备',
+  'archiveModal.title': '归档设备',
+  'archiveModal.intro': (name: string) => `“${name}”将不能再被预约。过去的预约仍保留在报表中。`,
+  'archiveModal.noUpcoming': '该设备没有未来的预约。',
+  'archiveModal.affected': (count: number) => `有 ${count} 个未来的预约受到影响。`,
+  'archiveModal.cancelThem': '取消这些预约',
+  'archiveModal.moveThem': '转移到',
+  'archiveModal.clashes': (count: number) => `其中 ${count} 个与新设备上的预约冲突或不在其开放时间内，将被取消。`,
+  'archiveModal.reason': '发送给受影响用户的原因',
+
+  // --- Opening hours & closures ---
+  'hours.title': '开放时间与关闭安排',
+  'hours.timeZone': '实验室时区',
+  'hours.timeZoneHint': (browserTimeZone: string) => `开放时间、节假日、停用时段和预约时间均按此时区解释，与用户所在地无关。未设置时，各浏览器使用自己的时区（${browserTimeZone}）。`,
+  'hours.saveTimeZone': '保存时区',
+  'hours.openingHours': '开放时间',
+  'hours.wholeLab': '整个实验室',
+  'hours.open': '开放',
+  'hours.closed': '关闭',
+  'hours.useLabHours': '使用实验室开放时间',
+  'hours.saveHours': '保存开放时间',
+  'hours.holidays': '节假日',
+  'hours.noHolidays': '尚未设置节假日。',
+  'hours.blackouts': '维护停用时段',
+  'hours.noBlackouts': '没有安排停用时段。',
+  'hours.unknownEquipment': '未知设备',
+  'hours.reason': '原因',
+  'hours.labTimeTitle': (timeZone: string) => `实验室时间（${timeZone}）`,
+  'hours.addBlackout': '添加停用时段',
+
+  // --- Quotas & no-shows ---
+  'quotas.title': '预约配额',
+  'quotas.labDefaults': '实验室默认值',
+  'quotas.hint': '限额按用户和设备计算；0 表示不限。实验室经理预约时可以忽略限额。',
+  'quotas.useLabDefaults': '使用实验室默认值',
+  'quotas.save': '保存配额',
+  'noShows.title': '未到场记录',
+  'noShows.policy': '规则',
+  'noShows.policyHint': '已确认的预约如在宽限期内未签到，将作为未到场释放。在统计周期内达到上限的用户不能再新建预约；0 表示关闭此限制。',
+  'noShows.graceMinutes': '宽限期（分钟）',
+  'noShows.limit': '上限',
+  'noShows.windowDays': '统计周期（天）',
+  'noShows.savePolicy': '保存规则',
+  'noShows.inWindow': '周期内',
+  'noShows.allTime': '累计',
+  'noShows.lastNoShow': '最近一次未到场',
+  'noShows.empty': '没有未到场记录。',
+  'noShows.restricted': '已限制',
+  'noShows.history': '历史',
+  'noShows.historyTitle': (name: string) => `未到场记录：${name}`,
+  'noShows.excusedSuffix': ' · 已豁免',
+  'noShows.countAgain': '重新计入',
+  'noShows.excuse': '豁免',
+
+  // --- Reports, users & audit ---
+  'reports.title': '报表',
+  'reports.groupBy': '分组方式',
+  'reports.empty': '此范围内没有预约。',
+  'users.title': '用户管理',
+  'users.email': '邮箱',
+  'users.role': '角色',
+  'audit.everything': '全部',
+  'audit.allActions': '全部操作',
+  'audit.search': '搜索',
+  'audit.searchPlaceholder': '用户、设备或 ID',
+  'audit.empty': '此范围内没有变更记录。',
+
+  // --- Equipment & my bookings ---
+  'equipment.title': '可预约设备',
+  'equipment.allCategories': '全部类别',
+  'equipment.contact': (person: string) => `联系人：${person}`,
+  'equipment.requiresApproval': '预约需要实验室经理审批',
+  'equipment.viewOnly': '你的账户只有查看权限',
+  'equipment.signInToBook': '登录后即可预约',
+  'equipment.bookNow': '立即预约',
+  'bookings.history': '变更记录',
+  'myBookings.title': '我的预约',
+  'myBookings.downloadIcs': '下载 .ics',
+  'myBookings.icsCalendarName': '我的设备预约',
+  'ics.pendingSummary': (equipment: string) => `${equipment}（待审批）`,
+  'ics.bookedBy': (name: string) => `预约人：${name}`,
+  'ics.equipmentCalendarName': (equipment: string) => `${equipment} 的预约`,
+  'myBookings.recurring': '重复',
+  'myBookings.fromWaitlist': '来自候补',
+  'myBookings.equipmentRemoved': '设备已移除',
+  'myBookings.used': (from: string, to: string) => `使用时间 ${from} – ${to}`,
+  'myBookings.now': '现在',
+  'myBookings.checkIn': '签到',
+  'myBookings.checkOut': '签退',
+  'myWaitlist.title': '我的候补',
+  'myWaitlist.hint': '如果整个时段空出，系统会自动为你预约。',
+  'myWaitlist.leave': '退出',
+
+  // --- Calendar feeds & notifications ---
+  'feeds.title': '日历订阅',
+  'feeds.hint': '在 Outlook 或 Google 日历中订阅这些网址。任何拿到网址的人都能读取订阅内容，请撤销不再使用的订阅。',
+  'feeds.newUserFeed': '新建我的预约订阅',
+  'feeds.newEquipmentFeed': '新建设备订阅',
+  'feeds.feed': '订阅',
+  'feeds.url': '网址',
+  'feeds.created': '创建时间',
+  'feeds.myBookings': '我的预约',
+  'feeds.copy': '复制',
+  'feeds.revoke': '撤销',
+  'notifications.title': '邮件通知',
+  'notifications.confirmations': '预约确认',
+  'notifications.cancellations': '取消通知',
+  'notifications.equipmentChanges': '我预约过的设备发生变更',
+  'notifications.reminders': '提醒',
+  'notifications.hours': (hours: number) => `${hours} 小时`,
+  'notifications.beforeStart': '在预约开始前',
+
+  // --- Booking modal ---
+  'booking.title': (name: string) => `预约“${name}”`,
+  'booking.editTitle': '修改预约',
+  'booking.minimum': (duration: string) => `最短 ${duration}`,
+  'booking.maximum': (duration: string) => `最长 ${duration}`,
+  'booking.leadTime': (hours: number) => `需提前 ${hours} 小时预约`,
+  'booking.separator': '，',
+  'booking.timeZoneNote': (timeZone: string) => `时间按实验室时区（${timeZone}）填写。`,
+  'booking.startDate': '开始日期',
+  'booking.startTime': '开始时间',
+  'booking.endDate': '结束日期',
+  'booking.endTime': '结束时间',
+  'booking.repeat': '重复',
+  'booking.doesNotRepeat': '不重复',
+  'booking.daily': '每天',
+  'booking.weekly': '每周',
+  'booking.every': '每',
+  'booking.days': '天',
+  'booking.weeks': '周',
+  'booking.until': '截止日期',
+  'booking.occurrences': '重复次数',
+  'booking.overrideQuotas': '忽略预约配额',
+  'booking.clashesWith': (from: string, to: string) => `与 ${from} – ${to} 冲突`,
+  'booking.free': '空闲',
+  'booking.joinWaitlist': '加入候补',
+  'booking.bookFreeOnly': (count: number) => `仅预约 ${count} 个空闲时段`,
+  'booking.request': '提交预约申请',
+  'booking.confirm': '确认预约',
+
+  // --- Other modals ---
+  'rejectModal.title': '拒绝预约',
+  'rejectModal.question': (user: string, equipment: string) => `拒绝 ${user} 对“${equipment}”的预约申请？`,
+  'details.title': '预约详情',
+  'details.bookedBy': '预约人',
+  'details.changeHistory': '变更记录',
+  'details.cancelBooking': '取消预约',
+  'cancelModal.title': '确认取消',
+  'cancelModal.question': (equipment: string) => `取消“${equipment}”的预约？`,
+  'cancelModal.questionOn': (equipment: string, when: string) => `取消 ${when} 对“${equipment}”的预约？`,
+  'cancelModal.seriesHint': '此预约属于重复系列。你可以只取消这一次，或取消该系列中所有未结束的预约。',
+  'cancelModal.no': '否',
+  'cancelModal.occurrence': '仅这一次',
+  'cancelModal.series': '整个系列',
+  'cancelModal.yes': '是，取消',
+};
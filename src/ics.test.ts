@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, type IcsBooking } from './ics';
+
+const booking = (fields: Partial<IcsBooking> = {}): IcsBooking => ({
+  id: 'booking1',
+  equipmentName: 'Microscope',
+  userDisplayName: 'Alice',
+  start: new Date('2030-01-07T09:00:00Z'),
+  end: new Date('2030-01-07T10:30:00Z'),
+  status: 'booked',
+  bookedAt: new Date('2030-01-01T12:00:00Z'),
+  ...fields,
+});
+const stamp = new Date('2030-01-02T08:00:00Z');
+const linesOf = (calendar: string) => calendar.split('\r\n');
+
+describe('buildCalendar', () => {
+  it('writes one event per booking with UTC times and CRLF line endings', () => {
+    const calendar = buildCalendar('Lab', [booking()], 'en', stamp);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(linesOf(calendar)).toEqual(expect.arrayContaining([
+      'X-WR-CALNAME:Lab',
+      'UID:booking1@equipment-booking.cmf',
+      'DTSTAMP:20300102T080000Z',
+      'DTSTART:20300107T090000Z',
+      'DTEND:20300107T103000Z',
+      'SEQUENCE:0',
+      'STATUS:CONFIRMED',
+      'TRANSP:OPAQUE',
+    ]));
+  });
+
+  it('marks pending bookings tentative and released ones cancelled and free', () => {
+    expect(linesOf(buildCalendar('Lab', [booking({ status: 'pending' })], 'en', stamp))).toContain('STATUS:TENTATIVE');
+    for (const status of ['cancelled', 'rejected', 'noShow'] as const) {
+      expect(linesOf(buildCalendar('Lab', [booking({ status, cancelledAt: new Date('2030-01-03T00:00:00Z') })], 'en', stamp)))
+        .toEqual(expect.arrayContaining(['STATUS:CANCELLED', 'TRANSP:TRANSPARENT']));
+    }
+  });
+
+  it('raises the sequence with every later change', () => {
+    const first = linesOf(buildCalendar('Lab', [booking({ updatedAt: new Date('2030-01-01T12:00:10Z') })], 'en', stamp));
+    const second = linesOf(buildCalendar('Lab', [booking({ updatedAt: new Date('2030-01-01T12:01:00Z') })], 'en', stamp));
+    expect(first).toContain('SEQUENCE:10');
+    expect(second).toContain('SEQUENCE:60');
+    expect(second).toContain('LAST-MODIFIED:20300101T120100Z');
+  });
+
+  it('escapes text and folds long lines without splitting characters', () => {
+    const name = 'Zeiss LSM 980; confocal, 共聚焦显微镜 '.repeat(3);
+    const calendar = buildCalendar('Lab', [booking({ equipmentName: name })], 'en', stamp);
+    const encoder = new TextEncoder();
+    linesOf(calendar).forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(calendar.replace(/\r\n /g, '')).toContain(`SUMMARY:${name.replace(/;/g, '\\;').replace(/,/g, '\\,')}`);
+  });
+
+  it('writes event text in the given language', () => {
+    const lines = linesOf(buildCalendar('实验室', [booking({ status: 'pending' })], 'zh-CN', stamp));
+    expect(lines).toEqual(expect.arrayContaining(['SUMMARY:Microscope（待审批）', 'DESCRIPTION:预约人：Alice']));
+    expect(linesOf(buildCalendar('Lab', [booking({ status: 'pending' })], 'en', stamp)))
+      .toEqual(expect.arrayContaining(['SUMMARY:Microscope (pending approval)', 'DESCRIPTION:Booked by Alice']));
+  });
+});
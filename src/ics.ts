@@ -0,0 +1,107 @@
+// src/ics.ts
+//
+// RFC 5545 (iCalendar) serialisation for bookings. Shared by the in-app .ics download and
+// scripts/calendar-feed-server.ts, so it must not depend on the browser or on either
+// Firebase SDK; callers convert their Timestamps to Dates first.
+
+import { getLocale, translate, type Locale } from './i18n';
+
+export type IcsBookingStatus = 'pending' | 'booked' | 'rejected' | 'cancelled' | 'noShow';
+
+export interface IcsBooking {
+  id: string;
+  equipmentName: string;
+  userDisplayName: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  status: IcsBookingStatus;
+  bookedAt: Date;
+  updatedAt?: Date;
+  reviewedAt?: Date;
+  cancelledAt?: Date;
+}
+
+const PRODUCT_ID = '-//CMF//Equipment Booking//EN';
+const UID_DOMAIN = 'equipment-booking.cmf';
+
+const lastModifiedOf = (booking: IcsBooking) =>
+  new Date(Math.max(...[booking.bookedAt, booking.updatedAt, booking.reviewedAt, booking.cancelledAt].map(date => date?.getTime() ?? 0)));
+
+// Calendar clients only apply an update when SEQUENCE goes up. Every change moves the last
+// modification time forward, so the seconds elapsed since the booking was made always increase.
+const sequenceOf = (booking: IcsBooking) => Math.floor((lastModifiedOf(booking).getTime() - booking.bookedAt.getTime()) / 1000);
+
+// Rejected bookings never happen and no-shows have released their slot, so subscribers see
+// both as cancelled too.
+const STATUS_MAP: Record<IcsBookingStatus, string> = {
+  pending: 'TENTATIVE',
+  booked: 'CONFIRMED',
+  rejected: 'CANCELLED',
+  cancelled: 'CANCELLED',
+  noShow: 'CANCELLED',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatIcsDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeIcsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space,
+// without splitting a multi-byte character.
+const encoder = new TextEncoder();
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const bookingToEvent = (booking: IcsBooking, locale: Locale, stamp: Date) => {
+  const status = STATUS_MAP[booking.status];
+  return [
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    `CREATED:${formatIcsDate(booking.bookedAt)}`,
+    `LAST-MODIFIED:${formatIcsDate(lastModifiedOf(booking))}`,
+    `SEQUENCE:${sequenceOf(booking)}`,
+    `DTSTART:${formatIcsDate(booking.start)}`,
+    `DTEND:${formatIcsDate(booking.end)}`,
+    `SUMMARY:${escapeIcsText(booking.status === 'pending' ? translate(locale, 'ics.pendingSummary', booking.equipmentName) : booking.equipmentName)}`,
+    `DESCRIPTION:${escapeIcsText(translate(locale, 'ics.bookedBy', booking.userDisplayName))}`,
+    ...(booking.location ? [`LOCATION:${escapeIcsText(booking.location)}`] : []),
+    `STATUS:${status}`,
+    // Cancelled events stay visible as free time instead of blocking the subscriber's calendar.
+    `TRANSP:${status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE'}`,
+    'END:VEVENT',
+  ];
+};
+
+// Event text is written in locale; the feed server passes the one stored with each feed.
+export const buildCalendar = (name: string, bookings: IcsBooking[], locale: Locale = getLocale(), stamp: Date = new Date()) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...bookings.flatMap(booking => bookingToEvent(booking, locale, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};